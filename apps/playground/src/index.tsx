@@ -3,7 +3,8 @@ import { createRoot } from "react-dom/client"
 import "./index.css"
 
 import { CSSVars } from "@amono/outil"
-import { Liaison } from "@amono/liaison"
+import { Liaison, TokenManager } from "@amono/liaison"
+import { useLiaison } from "@amono/liaison-react"
 
 const lol = new CSSVars([["small", "boolean"], "medium", "large", "x-large"], {
   prefix: "breakpoint",
@@ -108,13 +109,24 @@ interceptors.addInterceptor(
   },
 )
 
-interceptors.addInterceptor("request", async function addAuth(req) {
-  const url = new URL(req.url)
-  url.searchParams.append("sessionId", "22222")
+const auth = new TokenManager({
+  token: sessionStorage.getItem("token"),
 
-  return new Request(url, req)
+  async refresh() {
+    const token = crypto.randomUUID()
+    sessionStorage.setItem("token", token)
+
+    return token
+  },
+
+  onLogout(err) {
+    console.error("Logged out", err)
+    sessionStorage.removeItem("token")
+  },
 })
 
+auth.attach(interceptors)
+
 // new AbortController().abort()
 
 interceptors.addInterceptor("request", async function logOutgoing(req, stack) {
@@ -132,24 +144,22 @@ function App() {
   //   })
   // }, [])
 
-  React.useEffect(function Mount() {
-    lia
-      .safeGo({
-        params: {
-          id: 3,
-        },
-
-        // body: "SCHMEX",
-      })
-      .then(([res, err]) => {
-        if (err) {
-          console.log("THEN ERR", err)
-        } else {
-          console.log("RES", res)
-        }
-      })
+  const res = useLiaison(lia, {
+    params: {
+      id: 3,
+    },
+
+    // body: "SCHMEX",
   })
 
+  React.useEffect(() => {
+    if (res.status === "error") {
+      console.log("ERR", res.error)
+    } else if (res.status === "success") {
+      console.log("RES", res.data)
+    }
+  }, [res.status])
+
   return (
     <>
       <h1>PLAYGROUND</h1>
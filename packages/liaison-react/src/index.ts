@@ -0,0 +1,7 @@
+export {
+  useLiaison,
+  type UseLiaisonOptions,
+  type UseLiaisonResult,
+} from "./query"
+export { useLiaisonMutation, type UseLiaisonMutationResult } from "./mutation"
+export type { LiaisonState } from "./state"
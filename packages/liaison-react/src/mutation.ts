@@ -0,0 +1,86 @@
+import * as React from "react"
+import {
+  IDLE,
+  loading,
+  settled,
+  type AnyLiaison,
+  type CallConfig,
+  type LiaisonState,
+} from "./state"
+
+export type UseLiaisonMutationResult<T extends AnyLiaison> = LiaisonState<T> & {
+  /**
+   * Send the request, resolving with the same tuple as `safeGo`
+   */
+  mutate: (...args: Parameters<T["safeGo"]>) => ReturnType<T["safeGo"]>
+
+  /**
+   * Return to the idle state, aborting the request in flight
+   */
+  reset: () => void
+}
+
+/**
+ * Send the request of an instance on demand, e.g. when submitting a
+ * form. Only the most recent call updates the state, any previous one
+ * in flight is aborted, as is the one in flight on unmount.
+ *
+ * @example
+ * ```tsx
+ * function Rename({ id }: { id: number }) {
+ *   const rename = useLiaisonMutation(updateUser)
+ *
+ *   return (
+ *     <button
+ *       disabled={rename.isLoading}
+ *       onClick={() => rename.mutate({ path: { id }, body: { name } })}
+ *     >
+ *       Rename
+ *     </button>
+ *   )
+ * }
+ * ```
+ */
+export function useLiaisonMutation<T extends AnyLiaison>(
+  instance: T,
+): UseLiaisonMutationResult<T> {
+  const [state, setState] = React.useState<LiaisonState<T>>(IDLE)
+  const current = React.useRef<AbortController | null>(null)
+
+  React.useEffect(() => () => current.current?.abort(), [])
+
+  const mutate = React.useCallback(
+    (config?: CallConfig<T>) => {
+      current.current?.abort()
+
+      const controller = new AbortController()
+      const { signal, ...rest } = (config ?? {}) as {
+        signal?: AbortSignal | null
+      }
+
+      current.current = controller
+      setState(loading)
+
+      return instance
+        .safeGo({
+          ...rest,
+          signal: signal
+            ? AbortSignal.any([signal, controller.signal])
+            : controller.signal,
+        } as never)
+        .then(result => {
+          if (current.current === controller) setState(settled(result))
+          return result
+        })
+    },
+    [instance],
+  ) as unknown as UseLiaisonMutationResult<T>["mutate"]
+
+  const reset = React.useCallback(() => {
+    current.current?.abort()
+    current.current = null
+    setState(IDLE)
+  }, [])
+
+  return { ...state, mutate, reset }
+}
@@ -0,0 +1,109 @@
+import * as React from "react"
+import { liaisonKey, type LiaisonKey } from "@amono/liaison"
+import {
+  IDLE,
+  loading,
+  settled,
+  type AnyLiaison,
+  type HookArgs,
+  type LiaisonState,
+} from "./state"
+
+export interface UseLiaisonOptions {
+  /**
+   * Hold off sending the request while `false`,
+   * e.g. until the inputs of the call are known
+   */
+  enabled?: boolean
+}
+
+export type UseLiaisonResult<T extends AnyLiaison> = LiaisonState<T> & {
+  /**
+   * Key of the call, see `liaisonKey`
+   */
+  key: LiaisonKey
+
+  /**
+   * Send the request again with the same inputs
+   */
+  refetch: () => void
+}
+
+/**
+ * Send the request of an instance on mount and whenever the inputs of
+ * the call change, i.e. its key. The request in flight is aborted on
+ * unmount, or when superseded by another, such that a stale response
+ * never overwrites the state.
+ *
+ * Inputs are compared by value, so the call config can be declared
+ * inline. Callbacks of the config, like `onProgress`, are not part of
+ * the key; the most recent ones are used when the request is sent.
+ *
+ * @example
+ * ```tsx
+ * function User({ id }: { id: number }) {
+ *   const user = useLiaison(getUser, { path: { id } })
+ *
+ *   if (user.status === "error") return <Error error={user.error} />
+ *   if (user.status !== "success") return <Spinner />
+ *
+ *   return <h1>{user.data.name}</h1>
+ * }
+ * ```
+ */
+export function useLiaison<T extends AnyLiaison>(
+  instance: T,
+  ...[config, options = {}]: HookArgs<T, UseLiaisonOptions>
+): UseLiaisonResult<T> {
+  const { enabled = true } = options
+  const key = liaisonKey(instance, config as object | undefined)
+  const hash = hashKey(key)
+
+  const [state, setState] = React.useState<LiaisonState<T>>(IDLE)
+  const [attempt, setAttempt] = React.useState(0)
+
+  const latest = React.useRef(config)
+  latest.current = config
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    const { signal, ...rest } = (latest.current ?? {}) as {
+      signal?: AbortSignal | null
+    }
+
+    setState(loading)
+
+    instance
+      .safeGo({
+        ...rest,
+        signal: signal
+          ? AbortSignal.any([signal, controller.signal])
+          : controller.signal,
+      } as never)
+      .then(result => {
+        if (!controller.signal.aborted) setState(settled(result))
+      })
+
+    return () => controller.abort()
+  }, [instance, hash, enabled, attempt])
+
+  const refetch = React.useCallback(() => setAttempt(e => e + 1), [])
+
+  return { ...state, key, refetch }
+}
+
+/**
+ * Serialize a key such that equal inputs yield the same
+ * string regardless of the order of object properties
+ */
+function hashKey(key: LiaisonKey) {
+  return JSON.stringify(key, (_, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : value,
+  )
+}
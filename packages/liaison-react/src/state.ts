@@ -0,0 +1,72 @@
+import type { AnyLiaison, CallConfig, Data } from "@amono/liaison"
+
+export type { AnyLiaison, CallConfig, Data } from "@amono/liaison"
+
+/**
+ * Union of errors a network call of an instance may fail with
+ */
+export type Errors<T extends AnyLiaison> = NonNullable<
+  Awaited<ReturnType<T["safeGo"]>>[1]
+>
+
+/**
+ * Arguments following the instance of a hook. The call config is only
+ * optional if the instance can be called without one, mirroring `go`.
+ */
+export type HookArgs<T extends AnyLiaison, Options> =
+  Parameters<T["go"]> extends [requiredConfig: infer C]
+    ? [config: C, options?: Options]
+    : [config?: CallConfig<T>, options?: Options]
+
+/**
+ * State of a network call, narrowed by its `status`. The data and error
+ * of a previous call are kept while loading.
+ */
+export type LiaisonState<T extends AnyLiaison> =
+  | { status: "idle"; data: undefined; error: null; isLoading: false }
+  | {
+      status: "loading"
+      data: Data<T> | undefined
+      error: Errors<T> | null
+      isLoading: true
+    }
+  | { status: "success"; data: Data<T>; error: null; isLoading: false }
+  | { status: "error"; data: undefined; error: Errors<T>; isLoading: false }
+
+export const IDLE = {
+  status: "idle",
+  data: undefined,
+  error: null,
+  isLoading: false,
+} as const
+
+/**
+ * Loading state following given state
+ */
+export function loading<T extends AnyLiaison>(
+  state: LiaisonState<T>,
+): LiaisonState<T> {
+  return { ...state, status: "loading", isLoading: true }
+}
+
+/**
+ * Final state of a network call by the tuple of `safeGo`
+ */
+export function settled<T extends AnyLiaison>([data, error]: [
+  unknown,
+  unknown,
+]): LiaisonState<T> {
+  return error
+    ? {
+        status: "error",
+        data: undefined,
+        error: error as Errors<T>,
+        isLoading: false,
+      }
+    : {
+        status: "success",
+        data: data as Data<T>,
+        error: null,
+        isLoading: false,
+      }
+}
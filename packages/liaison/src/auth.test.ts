@@ -0,0 +1,96 @@
+import { describe, expect, test } from "vitest"
+import { z } from "zod"
+import { Liaison, MockTransport, TokenManager } from "./index"
+
+/**
+ * The pattern of the readme; an instance refreshing the token that
+ * extends the very instance the manager is attached to
+ */
+function setup() {
+  const mock = new MockTransport()
+    .route("POST", "/auth/refresh", {
+      body: { accessToken: "fresh" },
+      delay: 10,
+    })
+    .route("GET", "/me", request =>
+      request.headers.get("authorization") === "Bearer fresh"
+        ? { body: { name: "Alice" } }
+        : { status: 401 },
+    )
+
+  const defaults = new Liaison({
+    baseUrl: "https://api.test",
+    fetch: mock.fetch,
+  })
+  const refreshToken = new Liaison(defaults, {
+    url: "/auth/refresh",
+    method: "POST",
+    response: z => z.object({ accessToken: z.string() }),
+  })
+  const getMe = new Liaison(defaults, { url: "/me" })
+
+  const auth = new TokenManager({
+    token: "expired",
+    refresh: () => refreshToken.go().then(e => e.accessToken),
+  })
+
+  auth.attach(defaults)
+  auth.exclude(refreshToken)
+
+  return { mock, auth, getMe }
+}
+
+describe("TokenManager", () => {
+  test("refreshes through an instance extending the attached one", async () => {
+    const { mock, auth, getMe } = setup()
+
+    await expect(getMe.go()).resolves.toEqual({ name: "Alice" })
+    expect(auth.token).toBe("fresh")
+    expect(mock.calls.map(e => new URL(e.url).pathname)).toEqual([
+      "/me",
+      "/auth/refresh",
+      "/me",
+    ])
+  })
+
+  test("shares a single refresh between rejected requests", async () => {
+    const { mock, getMe } = setup()
+
+    await expect(Promise.all([getMe.go(), getMe.go()])).resolves.toEqual([
+      { name: "Alice" },
+      { name: "Alice" },
+    ])
+    expect(
+      mock.calls.filter(e => e.url.endsWith("/auth/refresh")),
+    ).toHaveLength(1)
+  })
+
+  test("fails the rejected request once refreshing fails", async () => {
+    let loggedOut = false
+    const mock = new MockTransport()
+      .route("POST", "/auth/refresh", { status: 401 })
+      .route("GET", "/me", { status: 401 })
+
+    const defaults = new Liaison({
+      baseUrl: "https://api.test",
+      fetch: mock.fetch,
+    })
+    const refreshToken = new Liaison(defaults, {
+      url: "/auth/refresh",
+      method: "POST",
+    })
+    const auth = new TokenManager({
+      token: "expired",
+      refresh: () => refreshToken.go().then(String),
+      onLogout: () => (loggedOut = true),
+    })
+
+    auth.attach(defaults)
+    auth.exclude(refreshToken)
+
+    const [, error] = await new Liaison(defaults, { url: "/me" }).safeGo()
+    expect(error?.name).toBe("HttpError")
+    expect(loggedOut).toBe(true)
+    expect(auth.token).toBeNull()
+  })
+})
@@ -0,0 +1,221 @@
+import { InterceptionHandler, type InterceptorOptions } from "./intercept"
+
+export interface TokenManagerOptions {
+  /**
+   * Token to start out with, e.g. one persisted from a previous session
+   */
+  token?: string | null
+
+  /**
+   * Obtain a new token once the current one is rejected. Given the
+   * rejected token, or `null` if the request was sent without one.
+   */
+  refresh: (token: string | null) => Promise<string>
+
+  /**
+   * Called once refreshing fails, with the error it failed with.
+   * The token is cleared beforehand.
+   */
+  onLogout?: (error: unknown) => void
+
+  /**
+   * Header the token is sent in. Defaults to `Authorization`
+   */
+  header?: string
+
+  /**
+   * Scheme the token is prefixed with, empty to send the token as is.
+   * Defaults to `Bearer`
+   */
+  scheme?: string
+
+  /**
+   * Determine whether a response means the token was rejected.
+   * Defaults to a `401` status.
+   */
+  isRejected?: (response: Response) => boolean
+}
+
+/**
+ * Attach a bearer token to every request, and refresh it once rejected.
+ *
+ * A single refresh is shared by every request rejected in the meantime,
+ * and requests sent while refreshing wait for its result. Rejected
+ * requests are then replayed once with the new token. Should refreshing
+ * fail, the token is cleared and `onLogout` called, after which the
+ * rejected requests fail with their original `HttpError`, and those
+ * waiting on the refresh with the error it failed with.
+ *
+ * The instance that refreshes the token has to be excluded should it
+ * extend an instance the manager is attached to, as its request would
+ * otherwise wait on the very refresh it is part of.
+ *
+ * @example
+ * ```ts
+ * const auth = new TokenManager({
+ *   token: localStorage.getItem("token"),
+ *   refresh: () => refreshToken.go().then(e => e.accessToken),
+ *   onLogout: () => router.navigate("/login"),
+ * })
+ *
+ * auth.attach(defaults)
+ * auth.exclude(refreshToken)
+ * ```
+ */
+export class TokenManager extends InterceptionHandler {
+  #options: TokenManagerOptions
+  #token: string | null
+  #refreshing: Promise<string> | null = null
+
+  /**
+   * Requests of excluded instances, which neither wait on nor trigger
+   * a refresh
+   */
+  #excluded = new WeakSet<Request>()
+
+  constructor(options: TokenManagerOptions) {
+    super()
+
+    this.#options = options
+    this.#token = options.token ?? null
+
+    this.addInterceptor(
+      "request",
+      async request => {
+        if (this.#refreshing && !this.#excluded.has(request))
+          await this.#refreshing
+
+        if (this.#token !== null)
+          request.headers.set(this.#header, this.#format(this.#token))
+
+        return request
+      },
+      { name: "attachToken" },
+    )
+
+    this.addInterceptor(
+      "response",
+      async (response, request, _, replay) => {
+        const isRejected =
+          this.#options.isRejected ?? (response => response.status === 401)
+
+        if (!replay || this.#excluded.has(request) || !isRejected(response))
+          return response
+
+        const sent = request.headers.get(this.#header)
+
+        try {
+          await this.#refresh(sent === null ? null : this.#parse(sent))
+        } catch {
+          return response
+        }
+
+        /** Free up the connection of the discarded response */
+        await response.body?.cancel()
+        return replay()
+      },
+      { name: "refreshToken", unsuccessful: true },
+    )
+  }
+
+  /**
+   * The current token, `null` if there is none
+   */
+  get token() {
+    return this.#token
+  }
+
+  /**
+   * Set the token, e.g. after logging in, or clear it by passing `null`
+   */
+  setToken(token: string | null) {
+    this.#token = token
+  }
+
+  /**
+   * Add the interceptors of the manager to an instance, and thereby
+   * every instance extending it. Remove them again through a signal,
+   * or by their names `attachToken` and `refreshToken`.
+   *
+   * @example
+   * ```ts
+   * const controller = new AbortController()
+   * auth.attach(defaults, { signal: controller.signal })
+   *
+   * controller.abort()
+   * ```
+   */
+  attach(
+    instance: Pick<InterceptionHandler, "addInterceptor">,
+    options: InterceptorOptions = {},
+  ) {
+    for (const { callback, ...rest } of this.interceptors.request)
+      instance.addInterceptor("request", callback, { ...rest, ...options })
+
+    for (const { callback, ...rest } of this.interceptors.response)
+      instance.addInterceptor("response", callback, { ...rest, ...options })
+
+    for (const { callback, ...rest } of this.interceptors.error)
+      instance.addInterceptor("error", callback, { ...rest, ...options })
+  }
+
+  /**
+   * Send the requests of an instance, and of every instance extending it,
+   * without waiting on a refresh, and without refreshing once rejected.
+   * Meant for the instance that refreshes the token, should it extend
+   * an instance the manager is attached to.
+   *
+   * @example
+   * ```ts
+   * const refreshToken = new Liaison(defaults, { url: "/auth/refresh" })
+   * auth.exclude(refreshToken)
+   * ```
+   */
+  exclude(
+    instance: Pick<InterceptionHandler, "addInterceptor">,
+    options: InterceptorOptions = {},
+  ) {
+    instance.addInterceptor(
+      "request",
+      async request => {
+        this.#excluded.add(request)
+        return request
+      },
+      { name: "excludeToken", priority: Number.MAX_SAFE_INTEGER, ...options },
+    )
+  }
+
+  /**
+   * Refresh the token unless it changed since the rejected request was
+   * sent, in which case it has already been refreshed by another one
+   */
+  #refresh(rejected: string | null) {
+    if (this.#token !== rejected) return Promise.resolve(this.#token)
+
+    return (this.#refreshing ??= this.#options
+      .refresh(rejected)
+      .then(
+        token => (this.#token = token),
+        error => {
+          this.#token = null
+          this.#options.onLogout?.(error)
+          throw error
+        },
+      )
+      .finally(() => (this.#refreshing = null)))
+  }
+
+  get #header() {
+    return this.#options.header ?? "Authorization"
+  }
+
+  #format(token: string) {
+    const scheme = this.#options.scheme ?? "Bearer"
+    return scheme ? `${scheme} ${token}` : token
+  }
+
+  #parse(header: string) {
+    const scheme = this.#options.scheme ?? "Bearer"
+    return scheme ? header.slice(scheme.length + 1) : header
+  }
+}
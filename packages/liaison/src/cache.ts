@@ -0,0 +1,204 @@
+import type * as Concrete from "./types/concrete"
+import { defaultTransport } from "./retry"
+
+/**
+ * Only responses of safe methods are cached
+ */
+const CACHEABLE_METHODS = ["GET", "HEAD"]
+
+/**
+ * Request headers that always distinguish cache entries, such that
+ * the response of one user is never served to another
+ */
+const VARY_BY_DEFAULT = ["authorization"]
+
+export interface MemoryCacheStoreOptions {
+  /**
+   * Maximum number of entries, the least recently used
+   * one is evicted beyond it. Defaults to `500`
+   */
+  maxEntries?: number
+}
+
+/**
+ * Default storage adapter, an in-memory store that
+ * lives for as long as the JavaScript context does.
+ */
+export class MemoryCacheStore implements Concrete.CacheStore {
+  #entries = new Map<string, Concrete.CacheEntry>()
+  #maxEntries: number
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.#maxEntries = options.maxEntries ?? 500
+  }
+
+  get(key: string) {
+    const entry = this.#entries.get(key)
+
+    /** Moved to the end, such that the first entry is the least recent */
+    if (entry) {
+      this.#entries.delete(key)
+      this.#entries.set(key, entry)
+    }
+
+    return entry
+  }
+
+  set(key: string, entry: Concrete.CacheEntry) {
+    this.#entries.delete(key)
+    this.#entries.set(key, entry)
+
+    for (const oldest of this.#entries.keys()) {
+      if (this.#entries.size <= this.#maxEntries) break
+      this.#entries.delete(oldest)
+    }
+  }
+
+  delete(key: string) {
+    this.#entries.delete(key)
+  }
+
+  clear() {
+    this.#entries.clear()
+  }
+}
+
+/**
+ * Shared by all instances that do not provide a store of their own
+ */
+export const defaultCacheStore = new MemoryCacheStore()
+
+/**
+ * Key a request by its method, url, `Authorization` header
+ * and any other headers it is said to vary by
+ */
+export function cacheKey(request: Request, vary: string[] = []) {
+  const names = new Set([...VARY_BY_DEFAULT, ...vary.map(e => e.toLowerCase())])
+  const headers = [...names]
+    .sort()
+    .map(e => `${e}=${request.headers.get(e) ?? ""}`)
+
+  return [request.method, request.url, ...headers].join(" ")
+}
+
+/**
+ * Serve requests from the cache when possible and otherwise send them
+ * through the transport, storing any successful response. Requests are
+ * keyed as they are sent, i.e. once the request interceptors have run.
+ * A stale entry is revalidated with `If-None-Match`/`If-Modified-Since`,
+ * and a `304` is turned back into the cached response.
+ *
+ * During the `staleWhileRevalidate` window a stale entry is served as
+ * is, and `revalidate` is called to refresh it in the background.
+ */
+export function cachedFetch(
+  policy: Concrete.CacheConfig,
+  transport: Concrete.Transport = defaultTransport,
+  options: { force?: boolean; revalidate: () => void },
+): Concrete.Transport {
+  return async request => {
+    if (!CACHEABLE_METHODS.includes(request.method)) return transport(request)
+
+    const {
+      ttl = 0,
+      staleWhileRevalidate = 0,
+      store = defaultCacheStore,
+    } = policy
+    const key = cacheKey(request, policy.vary)
+    const entry = await store.get(key)
+
+    if (entry && !options.force) {
+      const age = Date.now() - entry.storedAt
+
+      if (age < ttl) return fromCacheEntry(entry)
+
+      if (age < ttl + staleWhileRevalidate) {
+        options.revalidate()
+        return fromCacheEntry(entry)
+      }
+    }
+
+    if (entry?.etag) request.headers.set("if-none-match", entry.etag)
+    if (entry?.lastModified)
+      request.headers.set("if-modified-since", entry.lastModified)
+
+    const response = await transport(request)
+
+    if (entry && response.status === 304) {
+      const refreshed = refreshCacheEntry(entry, response)
+      await store.set(key, refreshed)
+
+      return fromCacheEntry(refreshed)
+    }
+
+    /**
+     * An entry that is never fresh and cannot be revalidated would never
+     * be served, and is thus not worth storing
+     */
+    const servable =
+      ttl + staleWhileRevalidate > 0 ||
+      response.headers.has("etag") ||
+      response.headers.has("last-modified")
+
+    if (
+      response.ok &&
+      servable &&
+      !/no-store/i.test(response.headers.get("cache-control") ?? "")
+    )
+      /**
+       * Stored in the background so that the body is not
+       * buffered before the response can be consumed
+       */
+      toCacheEntry(response.clone())
+        .then(e => store.set(key, e))
+        .catch(() => {})
+
+    return response
+  }
+}
+
+/**
+ * Serialize a response into a cache entry
+ */
+async function toCacheEntry(response: Response): Promise<Concrete.CacheEntry> {
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers],
+    body: await response.arrayBuffer(),
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+    storedAt: Date.now(),
+  }
+}
+
+/**
+ * Form a new response from a cache entry
+ */
+function fromCacheEntry(entry: Concrete.CacheEntry) {
+  return new Response(entry.body.byteLength ? entry.body : null, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  })
+}
+
+/**
+ * Update a cache entry with the headers of a `304 Not Modified`
+ * response, which may carry new validators, and reset its age
+ */
+function refreshCacheEntry(
+  entry: Concrete.CacheEntry,
+  response: Response,
+): Concrete.CacheEntry {
+  const headers = new Headers(entry.headers)
+  for (const [key, value] of response.headers) headers.set(key, value)
+
+  return {
+    ...entry,
+    headers: [...headers],
+    etag: headers.get("etag") ?? undefined,
+    lastModified: headers.get("last-modified") ?? undefined,
+    storedAt: Date.now(),
+  }
+}
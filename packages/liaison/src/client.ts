@@ -0,0 +1,140 @@
+import { Liaison } from "./index"
+import type * as Concrete from "./types/concrete"
+
+/**
+ * Nested record of endpoint configs. Any object with
+ * a `url` is an endpoint, anything else a resource.
+ */
+export type EndpointTree = {
+  [key: string]: EndpointTree | EndpointConfig
+}
+
+type EndpointConfig = Concrete.Config & { url: string }
+
+/**
+ * Maps every endpoint config of a tree to an instance extending the
+ * root of the client, named by its dot separated path unless it
+ * configures a name of its own
+ */
+export type ClientTree<T, Root, Path extends string = ""> = {
+  [K in keyof T]: T[K] extends EndpointConfig
+    ? Liaison<EndpointName<T[K], `${Path}${K & string}`>, Root>
+    : ClientTree<T[K], Root, `${Path}${K & string}.`>
+}
+
+/**
+ * An endpoint config named by its path, unless it is named already
+ */
+type EndpointName<T, Name extends string> = T extends { name: string }
+  ? T
+  : T & { name: Name }
+
+export interface LiaisonClientOptions<Name extends string = string> {
+  /**
+   * Name of the instance every endpoint of the client extends,
+   * used to tell the client apart in the `chain`. Defaults to `client`
+   */
+  name?: Name
+}
+
+/**
+ * Keys of a client that cannot be used as resource or endpoint names
+ */
+const RESERVED_KEYS = ["root", "addInterceptor", "endpoints"]
+
+class Client<U extends Liaison<any, any>, Name extends string = "client"> {
+  /**
+   * The instance every endpoint of the client extends
+   */
+  root: Liaison<{ name: Name }, U>
+
+  #endpoints: Array<[name: string, endpoint: Liaison<any, any>]> = []
+
+  constructor(
+    base: U,
+    tree: EndpointTree,
+    options: LiaisonClientOptions<Name> = {},
+  ) {
+    this.root = new Liaison(base, { name: options.name ?? ("client" as Name) })
+
+    for (const key of Object.keys(tree))
+      if (RESERVED_KEYS.includes(key))
+        throw new Error(`"${key}" is reserved by LiaisonClient`)
+
+    Object.assign(this, this.#build(tree, []))
+  }
+
+  #build(tree: EndpointTree, path: string[]): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(tree).map(([key, node]) => {
+        if (!isEndpointConfig(node))
+          return [key, this.#build(node, [...path, key])]
+
+        const name = [...path, key].join(".")
+        const endpoint = new Liaison(this.root, { name, ...node })
+        this.#endpoints.push([name, endpoint])
+
+        return [key, endpoint]
+      }),
+    )
+  }
+
+  /**
+   * Add an interceptor to every endpoint of the client, but
+   * not to any other instance extending the same base
+   */
+  addInterceptor: Liaison<{}>["addInterceptor"] = (...args) =>
+    this.root.addInterceptor(...args)
+
+  /**
+   * Every endpoint of the client along with its dot separated path,
+   * e.g. `users.get`, which is also its `name` unless one is configured.
+   *
+   * @example
+   * ```ts
+   * toOpenAPI(Object.fromEntries(api.endpoints()), { info })
+   * ```
+   */
+  endpoints() {
+    return [...this.#endpoints]
+  }
+}
+
+/**
+ * Group endpoints into a typed tree of resources. Every endpoint is an
+ * instance extending the root of the client, which in turn extends the
+ * given base, such that `chain`, `types` and go-to-definition still work.
+ *
+ * @example
+ * ```ts
+ * const api = new LiaisonClient(defaults, {
+ *   users: {
+ *     list: { url: "/users", response: z => z.array(user) },
+ *     get: { url: "/users/:id", response: () => user },
+ *   },
+ * })
+ *
+ * const user = await api.users.get.go({ path: { id: 1 } })
+ * ```
+ */
+export const LiaisonClient = Client as new <
+  U extends Liaison<any, any>,
+  const T extends EndpointTree,
+  const Name extends string = "client",
+>(
+  base: U,
+  tree: T,
+  options?: LiaisonClientOptions<Name>,
+) => LiaisonClient<U, T, Name>
+
+export type LiaisonClient<
+  U extends Liaison<any, any>,
+  T extends EndpointTree,
+  Name extends string = "client",
+> = Client<U, Name> & ClientTree<T, Client<U, Name>["root"]>
+
+function isEndpointConfig(
+  node: EndpointTree | EndpointConfig,
+): node is EndpointConfig {
+  return typeof node.url === "string"
+}
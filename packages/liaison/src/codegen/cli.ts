@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+import { writeFile } from "node:fs/promises"
+import { parseArgs } from "node:util"
+import { generateFromFile } from "./index"
+
+/**
+ * Generate `Liaison` endpoints from an OpenAPI 3.x document
+ *
+ * liaison-codegen <document> [--out file] [--server url] [--import-source module]
+ */
+
+const USAGE = `Usage: liaison-codegen <document> [options]
+
+Generate Liaison endpoints from an OpenAPI 3.x JSON or YAML document
+
+Options:
+  -o, --out <file>         Write to file instead of stdout
+  -s, --server <url>       Base url of the endpoints, defaults to the first server
+  --import-source <module> Module Liaison is imported from, defaults to @amono/liaison
+  -h, --help               Show this message`
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "out": { type: "string", short: "o" },
+    "server": { type: "string", short: "s" },
+    "import-source": { type: "string" },
+    "help": { type: "boolean", short: "h" },
+  },
+})
+
+const [document] = positionals
+
+if (values.help || !document) {
+  console.log(USAGE)
+  process.exit(values.help ? 0 : 1)
+}
+
+generateFromFile(document, {
+  server: values.server,
+  importSource: values["import-source"],
+})
+  .then(source =>
+    values.out
+      ? writeFile(values.out, source)
+      : void process.stdout.write(source),
+  )
+  .catch(error => {
+    console.error(
+      `Could not generate endpoints: ${error instanceof Error ? error.message : error}`,
+    )
+    process.exit(1)
+  })
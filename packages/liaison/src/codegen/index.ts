@@ -0,0 +1,600 @@
+import { readFile } from "node:fs/promises"
+import yaml from "js-yaml"
+import {
+  METHODS,
+  isReference,
+  type Document,
+  type Operation,
+  type Parameter,
+  type Reference,
+  type RequestBody,
+  type Response,
+  type Schema,
+  type SecurityScheme,
+} from "./openapi"
+import { isStringSchema, printKey, printSchema } from "./schema"
+
+export type * as OpenAPI from "./openapi"
+
+export interface GenerateOptions {
+  /**
+   * `baseUrl` of the shared base instance, which every path is relative
+   * to. Defaults to the first server of the document, with its variables
+   * defaulted
+   */
+  server?: string
+
+  /**
+   * Module `Liaison` is imported from. Defaults to `@amono/liaison`
+   */
+  importSource?: string
+}
+
+/**
+ * Parse an OpenAPI 3.x document, either JSON or YAML
+ */
+export function parseDocument(source: string): Document {
+  const document = yaml.load(source) as Document | undefined
+
+  if (!document?.openapi?.startsWith("3."))
+    throw new Error("Expected an OpenAPI 3.x document")
+
+  return document
+}
+
+/**
+ * Read an OpenAPI 3.x document from a JSON or YAML
+ * file and generate the source of its endpoints
+ */
+export async function generateFromFile(
+  file: string,
+  options?: GenerateOptions,
+) {
+  return generate(parseDocument(await readFile(file, "utf8")), options)
+}
+
+/**
+ * Generate the source of a module exporting a `Liaison` instance per
+ * operation of an OpenAPI document, with Zod schemas for the query and
+ * path params, request body, response and documented error responses.
+ *
+ * Component schemas are exported by name, and every endpoint extends a
+ * shared `base` instance which holds the server as its `baseUrl`, and
+ * sets the headers of the security schemes from the exported `credentials`.
+ *
+ * @example
+ * ```ts
+ * const source = generate(parseDocument(yaml))
+ * await writeFile("src/api.ts", source)
+ * ```
+ */
+export function generate(document: Document, options: GenerateOptions = {}) {
+  const { importSource = "@amono/liaison" } = options
+  const server = options.server ?? getServerUrl(document)
+  const identifiers = new Set([
+    ...GLOBALS,
+    "z",
+    "Liaison",
+    "base",
+    "credentials",
+  ])
+
+  const resolve = <T>(value: T | Reference): T =>
+    isReference(value)
+      ? resolve(resolvePointer<T>(document, value.$ref))
+      : value
+
+  /**
+   * Component schemas are printed in the order of their dependencies,
+   * references that would otherwise come before the component they
+   * point to, i.e. recursive ones, are deferred with `z.lazy`. Such a
+   * component is annotated as TypeScript cannot infer its own type.
+   */
+  const components = sortComponents(document.components?.schemas ?? {})
+  const names = new Map(
+    components.map(([name]) => [
+      name,
+      uniqueName(identifiers, pascalCase(name), "Schema"),
+    ]),
+  )
+  const printed = new Set<string>()
+  let deferred = 0
+
+  const reference = (ref: string, indent: string): string => {
+    const name = COMPONENT_SCHEMA.exec(ref)?.[1]
+    const key = name === undefined ? undefined : unescapePointer(name)
+
+    if (key === undefined || !names.has(key))
+      return printSchema(resolvePointer(document, ref), reference, indent)
+
+    if (printed.has(key)) return names.get(key)!
+
+    deferred++
+    return `z.lazy(() => ${names.get(key)})`
+  }
+
+  const schemas = components.map(([name, schema]) => {
+    const before = deferred
+    const source = printSchema(schema, reference)
+    const annotation = deferred > before ? ": z.ZodTypeAny" : ""
+    printed.add(name)
+
+    return `${printDoc(resolve(schema).description)}export const ${names.get(name)}${annotation} = ${source}\n`
+  })
+
+  const endpoints = Object.entries(document.paths ?? {}).flatMap(
+    ([path, item = {}]) =>
+      METHODS.filter(method => item[method]).map(method => {
+        const operation = item[method]!
+        const name = uniqueName(
+          identifiers,
+          camelCase(operation.operationId ?? operationName(method, path)),
+        )
+        const parameters = mergeParameters(
+          [...(item.parameters ?? []), ...(operation.parameters ?? [])].map(
+            resolve,
+          ),
+        )
+
+        return printEndpoint({
+          name,
+          method,
+          url: path,
+          operation,
+          parameters,
+          resolve,
+          reference,
+        })
+      }),
+  )
+
+  const securitySchemes = Object.entries(
+    document.components?.securitySchemes ?? {},
+  ).map(([name, scheme]) => [name, resolve(scheme)] as const)
+
+  return [
+    [
+      "/**",
+      ` * Generated from the OpenAPI document "${document.info.title}" ${document.info.version}`,
+      " * by `@amono/liaison/codegen`, any edits are overwritten",
+      " */",
+      `import { z } from "zod"`,
+      `import { Liaison } from "${importSource}"`,
+      "",
+    ].join("\n"),
+    ...schemas,
+    printBase(document.info.title, server, securitySchemes),
+    ...endpoints,
+  ].join("\n")
+}
+
+const COMPONENT_SCHEMA = /^#\/components\/schemas\/([^/]+)$/
+
+interface EndpointContext {
+  name: string
+  method: string
+  url: string
+  operation: Operation
+  parameters: Parameter[]
+  resolve: <T>(value: T | Reference) => T
+  reference: (ref: string, indent: string) => string
+}
+
+function printEndpoint(context: EndpointContext) {
+  const { name, method, url, operation, parameters, resolve, reference } =
+    context
+
+  const indent = "  "
+  const print = (schema: Schema | Reference) =>
+    printSchema(schema, reference, indent)
+
+  const fields: string[] = [
+    `name: ${JSON.stringify(name)}`,
+    `url: ${JSON.stringify(url)}`,
+    `method: ${JSON.stringify(method.toUpperCase())}`,
+  ]
+
+  const query = parameters.filter(e => e.in === "query")
+  if (query.length)
+    fields.push(
+      `params: z => ${printParameters(query, resolve, print, printQueryParam)}`,
+    )
+
+  const path = parameters.filter(e => e.in === "path")
+  if (path.length)
+    fields.push(
+      `path: z => ${printParameters(path, resolve, print, printPathParam)}`,
+    )
+
+  const requestBody = operation.requestBody && resolve(operation.requestBody)
+  const body = requestBody && getRequestBody(requestBody)
+  if (body) {
+    fields.push(`bodyFormat: ${JSON.stringify(body.format)}`)
+    fields.push(
+      `body: z => ${print(body.schema)}${requestBody.required ? "" : ".optional()"}`,
+    )
+  }
+
+  const responses = Object.entries(operation.responses ?? {}).map(
+    ([status, response]) => [status, resolve(response)] as const,
+  )
+
+  const success =
+    responses.find(([status]) => /^2(\d\d|XX)$/i.test(status)) ??
+    responses.find(([status]) => status === "default")
+
+  if (success) {
+    const [, response] = success
+    const content = Object.entries(response.content ?? {})
+    const json = content.find(([type]) => JSON_TYPE.test(type))
+
+    if (json?.[1].schema) fields.push(`response: z => ${print(json[1].schema)}`)
+    else if (!content.length) fields.push(`responseFormat: "none"`)
+  }
+
+  const errors = responses.flatMap(([status, response]) => {
+    const json = Object.entries(response.content ?? {}).find(([type]) =>
+      JSON_TYPE.test(type),
+    )
+    if (!/^[45]\d\d$/.test(status) || !json?.[1].schema) return []
+
+    return `${indent}  ${status}: z => ${printSchema(json[1].schema, reference, `${indent}  `)},`
+  })
+
+  if (errors.length) fields.push(`errors: {\n${errors.join("\n")}\n${indent}}`)
+
+  const doc = printDoc(
+    [operation.summary, operation.description].filter(Boolean).join("\n\n"),
+    operation.deprecated,
+  )
+
+  return `${doc}export const ${name} = new Liaison(base, {\n${fields.map(e => `${indent}${e},`).join("\n")}\n})\n`
+}
+
+/**
+ * Print parameters as an object schema, optional parameters being optional
+ */
+function printParameters(
+  parameters: Parameter[],
+  resolve: <T>(value: T | Reference) => T,
+  print: (schema: Schema | Reference) => string,
+  convert: (source: string, schema: Schema) => string,
+) {
+  const fields = parameters.map(parameter => {
+    const schema = parameter.schema ?? {}
+    const source = convert(print(schema), resolve(schema))
+    const optional = parameter.required ? "" : ".optional()"
+    const description = parameter.description
+      ? `.describe(${JSON.stringify(parameter.description)})`
+      : ""
+
+    return `    ${printKey(parameter.name)}: ${source}${description}${optional},`
+  })
+
+  return `z.object({\n${fields.join("\n")}\n  })`
+}
+
+/**
+ * URL params must be strings, so any other value is
+ * converted, arrays becoming repeated params
+ */
+function printQueryParam(source: string, schema: Schema) {
+  if (isStringSchema(schema)) return source
+
+  if ([schema.type].flat().includes("array")) {
+    const items = isReference(schema.items) ? {} : schema.items ?? {}
+    return isStringSchema(items)
+      ? source
+      : `${source}.transform(e => e.map(String))`
+  }
+
+  if ([schema.type].flat().includes("object"))
+    return `${source}.transform(e => JSON.stringify(e))`
+
+  return `${source}.transform(String)`
+}
+
+/**
+ * Path segments may be either strings or numbers
+ */
+function printPathParam(source: string, schema: Schema) {
+  if (isStringSchema(schema)) return source
+  if ([schema.type].flat().every(e => e === "number" || e === "integer"))
+    return source
+
+  return `${source}.transform(String)`
+}
+
+const JSON_TYPE = /^application\/(?:[\w.-]+\+)?json\b/i
+
+/**
+ * Pick the body schema of the first content type that
+ * can be serialized by a `bodyFormat` of `Liaison`
+ */
+function getRequestBody(requestBody: RequestBody) {
+  for (const [type, media] of Object.entries(requestBody.content ?? {})) {
+    if (!media.schema) continue
+
+    if (JSON_TYPE.test(type)) return { format: "json", schema: media.schema }
+    if (type === "multipart/form-data")
+      return { format: "form", schema: media.schema }
+    if (type === "application/x-www-form-urlencoded")
+      return { format: "urlencoded", schema: media.schema }
+  }
+}
+
+/**
+ * Print the shared base instance, which the paths of every endpoint are
+ * relative to, along with a request interceptor that applies the
+ * `credentials` of any security scheme
+ */
+function printBase(
+  title: string,
+  server: string,
+  schemes: ReadonlyArray<readonly [string, SecurityScheme]>,
+) {
+  const fields = [
+    `name: ${JSON.stringify(title)}`,
+    ...(server ? [`baseUrl: ${JSON.stringify(server)}`] : []),
+  ]
+  const base = `export const base = new Liaison({\n${fields.map(e => `  ${e},`).join("\n")}\n})\n`
+
+  const statements = schemes.flatMap(([name, scheme]) => {
+    const value = `credentials[${JSON.stringify(name)}]`
+    const guard = `  if (${value} !== undefined)`
+
+    if (scheme.type === "apiKey" && scheme.in === "header")
+      return `${guard} request.headers.set(${JSON.stringify(scheme.name)}, ${value})`
+
+    if (scheme.type === "apiKey" && scheme.in === "query")
+      return [
+        `${guard} {`,
+        `    const url = new URL(request.url)`,
+        `    url.searchParams.set(${JSON.stringify(scheme.name)}, ${value})`,
+        `    request = new Request(url, request)`,
+        `  }`,
+      ].join("\n")
+
+    if (scheme.type === "http" && scheme.scheme.toLowerCase() === "basic")
+      return `${guard} request.headers.set("Authorization", \`Basic \${btoa(${value})}\`)`
+
+    if (
+      scheme.type === "http" ||
+      scheme.type === "oauth2" ||
+      scheme.type === "openIdConnect"
+    )
+      return `${guard} request.headers.set("Authorization", \`Bearer \${${value}}\`)`
+
+    return []
+  })
+
+  if (!statements.length) return base
+
+  const keys = schemes
+    .filter(
+      ([, scheme]) =>
+        scheme.type !== "mutualTLS" &&
+        !(scheme.type === "apiKey" && scheme.in === "cookie"),
+    )
+    .map(([name, scheme]) => {
+      const hint =
+        scheme.type === "http" && scheme.scheme.toLowerCase() === "basic"
+          ? "  /** `username:password` */\n"
+          : ""
+      return `${hint}  ${printKey(name)}?: string`
+    })
+
+  return [
+    "/**",
+    " * Credentials of the security schemes of the document,",
+    " * set before calling any endpoint that requires them",
+    " */",
+    `export const credentials: {\n${keys.join("\n")}\n} = {}\n`,
+    base,
+    `base.addInterceptor("request", async request => {\n${statements.join("\n")}\n  return request\n})\n`,
+  ].join("\n")
+}
+
+function printDoc(text = "", deprecated = false) {
+  const lines = [
+    ...(text ? text.trim().split("\n") : []),
+    ...(deprecated ? [...(text ? [""] : []), "@deprecated"] : []),
+  ]
+  if (!lines.length) return ""
+
+  return `/**\n${lines.map(e => ` * ${e}`.trimEnd().replaceAll("*/", "*\\/")).join("\n")}\n */\n`
+}
+
+/**
+ * Url of the first server with its variables substituted by their defaults
+ */
+function getServerUrl(document: Document) {
+  const [server] = document.servers ?? []
+  if (!server) return ""
+
+  return server.url
+    .replace(
+      /\{([^}]+)\}/g,
+      (match, name: string) => server.variables?.[name]?.default ?? match,
+    )
+    .replace(/\/$/, "")
+}
+
+/**
+ * Operation parameters override path item
+ * parameters of the same name and location
+ */
+function mergeParameters(parameters: Parameter[]) {
+  const merged = new Map(parameters.map(e => [`${e.in}:${e.name}`, e]))
+  return [...merged.values()]
+}
+
+/**
+ * Order component schemas such that any schema
+ * comes after the schemas it references
+ */
+function sortComponents(schemas: Record<string, Schema | Reference>) {
+  const sorted: Array<[string, Schema | Reference]> = []
+  const visited = new Set<string>()
+
+  const visit = (name: string) => {
+    if (visited.has(name) || !(name in schemas)) return
+    visited.add(name)
+
+    for (const ref of collectReferences(schemas[name])) {
+      const dependency = COMPONENT_SCHEMA.exec(ref)?.[1]
+      if (dependency !== undefined) visit(unescapePointer(dependency))
+    }
+
+    sorted.push([name, schemas[name]!])
+  }
+
+  Object.keys(schemas).forEach(visit)
+  return sorted
+}
+
+function collectReferences(value: unknown): string[] {
+  if (typeof value !== "object" || value === null) return []
+  if (isReference(value)) return [value.$ref]
+
+  return Object.values(value).flatMap(collectReferences)
+}
+
+/**
+ * Resolve a local JSON pointer, e.g. `#/components/schemas/Pet`
+ * https://datatracker.ietf.org/doc/html/rfc6901
+ */
+function resolvePointer<T>(document: Document, ref: string): T {
+  if (!ref.startsWith("#/"))
+    throw new Error(`Unsupported external reference "${ref}"`)
+
+  const value = ref
+    .slice(2)
+    .split("/")
+    .map(unescapePointer)
+    .reduce<any>((node, key) => node?.[key], document)
+
+  if (value === undefined) throw new Error(`Unresolved reference "${ref}"`)
+  return value
+}
+
+function unescapePointer(segment: string) {
+  return decodeURIComponent(segment).replaceAll("~1", "/").replaceAll("~0", "~")
+}
+
+/**
+ * Name an operation without an `operationId` by its method and path;
+ * `get /pets/{petId}/toys` becomes `getPetsByPetIdToys`
+ */
+function operationName(method: string, path: string) {
+  return [
+    method,
+    ...path
+      .split("/")
+      .filter(Boolean)
+      .map(e => e.replace(/^\{(.+)\}$/, "by $1")),
+  ].join(" ")
+}
+
+function camelCase(value: string) {
+  const pascal = pascalCase(value)
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1)
+}
+
+function pascalCase(value: string) {
+  const words = value
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean)
+
+  const name = words.map(e => e.charAt(0).toUpperCase() + e.slice(1)).join("")
+
+  return /^\d/.test(name) ? `_${name}` : name || "_"
+}
+
+/**
+ * Claim a unique identifier that is not a reserved word, trying
+ * the candidate with a suffix before resorting to numbering it
+ */
+function uniqueName(taken: Set<string>, candidate: string, suffix = "_") {
+  let name = RESERVED_WORDS.includes(candidate)
+    ? `${candidate}${suffix}`
+    : candidate
+
+  if (taken.has(name)) name = `${candidate}${suffix}`
+  for (let i = 2; taken.has(name); i++) name = `${candidate}${suffix}${i}`
+
+  taken.add(name)
+  return name
+}
+
+/**
+ * Globals that are used by, or would be confusing to shadow in, generated code
+ */
+const GLOBALS = [
+  "Array",
+  "Blob",
+  "Boolean",
+  "Date",
+  "Error",
+  "FormData",
+  "Map",
+  "Number",
+  "Object",
+  "Promise",
+  "Request",
+  "Response",
+  "Set",
+  "String",
+  "URL",
+  "btoa",
+]
+
+const RESERVED_WORDS = [
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "import",
+  "in",
+  "instanceof",
+  "new",
+  "null",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+  "let",
+  "static",
+  "implements",
+  "interface",
+  "package",
+  "private",
+  "protected",
+  "public",
+  "await",
+]
@@ -0,0 +1,129 @@
+/**
+ * The subset of an OpenAPI 3.0/3.1 document the generator reads.
+ * https://spec.openapis.org/oas/v3.1.0
+ */
+export interface Document {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  servers?: Server[]
+  paths?: Record<string, PathItem | undefined>
+  components?: Components
+  security?: SecurityRequirement[]
+}
+
+export interface Server {
+  url: string
+  variables?: Record<string, { default: string }>
+}
+
+export interface Components {
+  schemas?: Record<string, Schema | Reference>
+  parameters?: Record<string, Parameter | Reference>
+  requestBodies?: Record<string, RequestBody | Reference>
+  responses?: Record<string, Response | Reference>
+  securitySchemes?: Record<string, SecurityScheme | Reference>
+}
+
+export type SecurityRequirement = Record<string, string[]>
+
+export type SecurityScheme =
+  | { type: "apiKey"; name: string; in: "query" | "header" | "cookie" }
+  | { type: "http"; scheme: string }
+  | { type: "oauth2" | "openIdConnect" | "mutualTLS" }
+
+export const METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+] as const
+
+export type Method = (typeof METHODS)[number]
+
+export type PathItem = {
+  parameters?: Array<Parameter | Reference>
+} & { [M in Method]?: Operation }
+
+export interface Operation {
+  operationId?: string
+  summary?: string
+  description?: string
+  deprecated?: boolean
+  parameters?: Array<Parameter | Reference>
+  requestBody?: RequestBody | Reference
+  responses?: Record<string, Response | Reference>
+  security?: SecurityRequirement[]
+}
+
+export interface Parameter {
+  name: string
+  in: "query" | "path" | "header" | "cookie"
+  description?: string
+  required?: boolean
+  schema?: Schema | Reference
+}
+
+export interface RequestBody {
+  description?: string
+  required?: boolean
+  content?: Record<string, MediaType>
+}
+
+export interface Response {
+  description?: string
+  content?: Record<string, MediaType>
+}
+
+export interface MediaType {
+  schema?: Schema | Reference
+}
+
+export interface Reference {
+  $ref: string
+}
+
+/**
+ * A JSON Schema as used by OpenAPI, `nullable` being
+ * the 3.0 counterpart of a `null` type in 3.1
+ */
+export interface Schema {
+  type?: SchemaType | SchemaType[]
+  format?: string
+  description?: string
+  nullable?: boolean
+  enum?: unknown[]
+  const?: unknown
+  properties?: Record<string, Schema | Reference>
+  required?: string[]
+  additionalProperties?: boolean | Schema | Reference
+  items?: Schema | Reference
+  oneOf?: Array<Schema | Reference>
+  anyOf?: Array<Schema | Reference>
+  allOf?: Array<Schema | Reference>
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number | boolean
+  exclusiveMaximum?: number | boolean
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minItems?: number
+  maxItems?: number
+}
+
+export type SchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "array"
+  | "object"
+  | "null"
+
+export function isReference(value: unknown): value is Reference {
+  return typeof value === "object" && value !== null && "$ref" in value
+}
@@ -0,0 +1,212 @@
+import { isReference, type Reference, type Schema } from "./openapi"
+
+/**
+ * Turns a `$ref` into the source of the schema it points
+ * to, typically the identifier of a component schema
+ */
+export type ReferencePrinter = (ref: string, indent: string) => string
+
+/**
+ * Print the source code of the Zod schema equivalent of a JSON Schema.
+ * Keywords without a Zod counterpart are left out, which at worst makes
+ * the printed schema more lenient than the original.
+ */
+export function printSchema(
+  schema: Schema | Reference,
+  reference: ReferencePrinter,
+  indent = "",
+): string {
+  if (isReference(schema)) return reference(schema.$ref, indent)
+
+  const types = [schema.type ?? []].flat()
+  const nullable =
+    schema.nullable === true ||
+    types.includes("null") ||
+    schema.enum?.includes(null) === true
+
+  let source = printType(
+    schema,
+    types.filter(e => e !== "null"),
+    reference,
+    indent,
+  )
+
+  if (nullable && source !== "z.null()") source += ".nullable()"
+  if (schema.description)
+    source += `.describe(${JSON.stringify(schema.description)})`
+
+  return source
+}
+
+/**
+ * Whether values of a schema are strings, i.e. need no
+ * conversion to be used as a URL param or path segment
+ */
+export function isStringSchema(schema: Schema) {
+  if (schema.enum) return schema.enum.every(e => typeof e === "string")
+  return [schema.type].flat().every(e => e === "string")
+}
+
+function printType(
+  schema: Schema,
+  types: string[],
+  reference: ReferencePrinter,
+  indent: string,
+): string {
+  const print = (e: Schema | Reference) => printSchema(e, reference, indent)
+
+  if (schema.const !== undefined) return printLiteral(schema.const)
+  if (schema.enum) return printEnum(schema.enum.filter(e => e !== null))
+
+  if (schema.allOf) {
+    const { allOf, description, nullable, ...rest } = schema
+    const members = rest.properties ? [...allOf, rest] : allOf
+
+    return members.map(print).reduce((a, b) => `${a}.and(${b})`)
+  }
+
+  const union = schema.oneOf ?? schema.anyOf
+  if (union) return printUnion(union.map(print))
+
+  if (types.length > 1)
+    return printUnion(
+      types.map(type => printType(schema, [type], reference, indent)),
+    )
+
+  switch (types[0] ?? inferType(schema)) {
+    case "string":
+      return printString(schema)
+    case "integer":
+      return `${printNumber(schema)}.int()`
+    case "number":
+      return printNumber(schema)
+    case "boolean":
+      return "z.boolean()"
+    case "null":
+      return "z.null()"
+    case "array":
+      return printArray(schema, reference, indent)
+    case "object":
+      return printObject(schema, reference, indent)
+    default:
+      return "z.unknown()"
+  }
+}
+
+function inferType(schema: Schema) {
+  if (schema.properties || schema.additionalProperties !== undefined)
+    return "object"
+  if (schema.items) return "array"
+}
+
+function printLiteral(value: unknown) {
+  return `z.literal(${JSON.stringify(value)})`
+}
+
+function printEnum(values: unknown[]) {
+  if (values.length === 1) return printLiteral(values[0])
+  if (values.every(e => typeof e === "string"))
+    return `z.enum([${values.map(e => JSON.stringify(e)).join(", ")}])`
+
+  return printUnion(values.map(printLiteral))
+}
+
+function printUnion(members: string[]) {
+  if (members.length === 1) return members[0]!
+  return `z.union([${members.join(", ")}])`
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  "email": ".email()",
+  "uuid": ".uuid()",
+  "uri": ".url()",
+  "url": ".url()",
+  "date-time": ".datetime({ offset: true })",
+  "date": ".date()",
+  "time": ".time()",
+}
+
+function printString(schema: Schema) {
+  if (schema.format === "binary") return "z.instanceof(Blob)"
+
+  let source = "z.string()"
+
+  if (schema.format && STRING_FORMATS[schema.format])
+    source += STRING_FORMATS[schema.format]
+  if (schema.minLength !== undefined) source += `.min(${schema.minLength})`
+  if (schema.maxLength !== undefined) source += `.max(${schema.maxLength})`
+  if (schema.pattern)
+    source += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`
+
+  return source
+}
+
+/**
+ * `exclusiveMinimum`/`exclusiveMaximum` are numbers as of
+ * OpenAPI 3.1, but booleans modifying `minimum`/`maximum` in 3.0
+ */
+function printNumber(schema: Schema) {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema
+
+  let source = "z.number()"
+
+  if (typeof exclusiveMinimum === "number") source += `.gt(${exclusiveMinimum})`
+  else if (minimum !== undefined)
+    source += exclusiveMinimum ? `.gt(${minimum})` : `.gte(${minimum})`
+
+  if (typeof exclusiveMaximum === "number") source += `.lt(${exclusiveMaximum})`
+  else if (maximum !== undefined)
+    source += exclusiveMaximum ? `.lt(${maximum})` : `.lte(${maximum})`
+
+  return source
+}
+
+function printArray(
+  schema: Schema,
+  reference: ReferencePrinter,
+  indent: string,
+) {
+  const items = schema.items
+    ? printSchema(schema.items, reference, indent)
+    : "z.unknown()"
+
+  let source = `z.array(${items})`
+
+  if (schema.minItems !== undefined) source += `.min(${schema.minItems})`
+  if (schema.maxItems !== undefined) source += `.max(${schema.maxItems})`
+
+  return source
+}
+
+function printObject(
+  schema: Schema,
+  reference: ReferencePrinter,
+  indent: string,
+) {
+  const { properties = {}, required = [], additionalProperties } = schema
+  const entries = Object.entries(properties)
+
+  const additional =
+    typeof additionalProperties === "object"
+      ? printSchema(additionalProperties, reference, indent)
+      : null
+
+  if (!entries.length)
+    return additionalProperties === false
+      ? "z.object({}).strict()"
+      : `z.record(${additional ?? "z.unknown()"})`
+
+  const inner = `${indent}  `
+  const fields = entries.map(([key, value]) => {
+    const optional = required.includes(key) ? "" : ".optional()"
+    return `${inner}${printKey(key)}: ${printSchema(value, reference, inner)}${optional},`
+  })
+
+  const source = `z.object({\n${fields.join("\n")}\n${indent}})`
+
+  return additional ? `${source}.catchall(${additional})` : source
+}
+
+export function printKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
@@ -0,0 +1,210 @@
+import type { Issue } from "./schema"
+
+/**
+ * Stage of the network call at which an error occured;
+ * - `request` before the request is sent across the wire
+ * - `response` when sending it or handling its response
+ */
+export type Stage = "request" | "response"
+
+/**
+ * Contextual information shared by all errors of a network call
+ */
+export interface ErrorContext {
+  request: Request
+  response?: Response
+  stage: Stage
+  body?: unknown
+}
+
+/**
+ * Base class of every error a `Liaison` network call may fail with.
+ * Can be used to tell errors of a network call apart from any other error.
+ *
+ * ```ts
+ * if (err instanceof HttpError && err.status === 404) {
+ *   // …
+ * }
+ * ```
+ */
+export abstract class LiaisonError extends Error {
+  abstract override name: string
+
+  /**
+   * The latest successfully formed request, it may be
+   * incomplete if the error occured while forming it
+   */
+  request: Request
+
+  /**
+   * Response of the server, if it got that far
+   */
+  response: Response | undefined
+
+  /**
+   * Stage of the network call at which the error occured
+   */
+  stage: Stage
+
+  /**
+   * Parsed body of the server response, if any
+   */
+  body: unknown
+
+  constructor(message: string, context: ErrorContext, options?: ErrorOptions) {
+    super(message, options)
+    this.request = context.request
+    this.response = context.response
+    this.stage = context.stage
+    this.body = context.body
+  }
+}
+
+/**
+ * The server responded with a status outside the 200-range.
+ *
+ * If the status is documented by the `errors` schemas of the config,
+ * `body` is the output of said schema and `documented` is `true`.
+ */
+export class HttpError<
+  Status extends number = number,
+  Body = unknown,
+  Documented extends boolean = boolean,
+> extends LiaisonError {
+  override name = "HttpError" as const
+  declare response: Response
+  declare body: Body
+
+  status: Status
+  statusText: string
+  documented: Documented
+
+  constructor(
+    context: ErrorContext & { response: Response },
+    documented: Documented,
+  ) {
+    super(
+      `Request failed with status ${context.response.status} ${context.response.statusText}`.trim(),
+      context,
+    )
+    this.status = context.response.status as Status
+    this.statusText = context.response.statusText
+    this.documented = documented
+  }
+}
+
+/**
+ * Native fetch failed to reach the server, e.g. because the
+ * network is down, DNS lookup failed or CORS disallowed it
+ */
+export class NetworkError extends LiaisonError {
+  override name = "NetworkError" as const
+
+  constructor(context: ErrorContext, options?: ErrorOptions) {
+    super(`Network call to "${context.request.url}" failed`, context, options)
+  }
+}
+
+/**
+ * Input passed at call time did not satisfy
+ * the `params`, `body` or `path` schema.
+ */
+export class RequestValidationError extends LiaisonError {
+  override name = "RequestValidationError" as const
+
+  /**
+   * Config key of the schema that failed
+   */
+  schema: "params" | "body" | "path"
+
+  issues: Issue[]
+
+  constructor(
+    schema: RequestValidationError["schema"],
+    issues: Issue[],
+    context: ErrorContext,
+    options?: ErrorOptions,
+  ) {
+    super(issues.map(e => e.message).join("\n"), context, options)
+    this.schema = schema
+    this.issues = issues
+  }
+}
+
+/**
+ * The unwrapped response did not satisfy the `response`
+ * schema, the unwrapped value is available as `body`.
+ */
+export class ResponseValidationError extends LiaisonError {
+  override name = "ResponseValidationError" as const
+
+  issues: Issue[]
+
+  constructor(issues: Issue[], context: ErrorContext, options?: ErrorOptions) {
+    super(issues.map(e => e.message).join("\n"), context, options)
+    this.issues = issues
+  }
+}
+
+/**
+ * The network call exceeded the `timeout` of its config.
+ *
+ * Told apart from an abort triggered by the caller
+ * which fails with an `AbortError` instead.
+ */
+export class TimeoutError extends LiaisonError {
+  override name = "TimeoutError" as const
+
+  /**
+   * Milliseconds the network call was allowed to take
+   */
+  timeout: number
+
+  constructor(timeout: number, context: ErrorContext, options?: ErrorOptions) {
+    super(`Network call timed out after ${timeout}ms`, context, options)
+    this.timeout = timeout
+  }
+}
+
+/**
+ * The network call was aborted through a `signal`
+ */
+export class AbortError extends LiaisonError {
+  override name = "AbortError" as const
+
+  /**
+   * The abort reason of the signal
+   */
+  reason: unknown
+
+  constructor(reason: unknown, context: ErrorContext) {
+    super(`Network call to "${context.request.url}" was aborted`, context, {
+      cause: reason,
+    })
+    this.reason = reason
+  }
+}
+
+/**
+ * Any error that is not otherwise classified, e.g. one thrown from
+ * an interceptor or `handleResponse`. The original error is its `cause`.
+ */
+export class UnexpectedError extends LiaisonError {
+  override name = "UnexpectedError" as const
+
+  constructor(error: Error, context: ErrorContext) {
+    super(error.message, context, { cause: error })
+  }
+}
+
+/**
+ * Union of every error a `Liaison` network call may fail with
+ */
+export type AnyLiaisonError =
+  | HttpError
+  | NetworkError
+  | RequestValidationError
+  | ResponseValidationError
+  | TimeoutError
+  | AbortError
+  | UnexpectedError
@@ -0,0 +1,188 @@
+import type { AnyLiaisonError } from "./errors"
+
+/**
+ * Payload of every lifecycle event of a network call. Durations are
+ * in milliseconds, measured from the start of the call.
+ */
+export interface CallEvent {
+  /**
+   * `name` of the instance that made the call
+   */
+  name: string | undefined
+
+  /**
+   * The request as formed from the config, the very same object for
+   * every event of a call. Headers set on it by a `start` listener are
+   * sent along, e.g. to propagate a trace.
+   */
+  request: Request
+  url: string
+  method: string
+
+  /**
+   * Number of the current attempt, starting at `1`
+   */
+  attempt: number
+
+  /**
+   * Status of the most recent response, if any
+   */
+  status: number | undefined
+
+  /**
+   * Milliseconds since the epoch at which the call started
+   */
+  startTime: number
+  duration: number
+
+  timing: {
+    /**
+     * Time until the headers of the final response were received
+     */
+    request?: number
+
+    /**
+     * Time from receiving said headers until the call settled
+     */
+    response?: number
+  }
+
+  /**
+   * Number of bytes of the response body that were read
+   */
+  size: number | undefined
+
+  /**
+   * Error the call failed with, on `failure` and `settled`
+   */
+  error?: AnyLiaisonError
+
+  /**
+   * Milliseconds waited before the next attempt, on `retry`
+   */
+  delay?: number
+}
+
+/**
+ * - `start` once the request is formed and about to be sent
+ * - `retry` for every failed attempt that is retried
+ * - `success` once the response is unwrapped and validated
+ * - `failure` once the error interceptors have run
+ * - `settled` after either of the former two
+ */
+export type LiaisonEvent = "start" | "retry" | "success" | "failure" | "settled"
+
+export type EventListener = (event: CallEvent) => void
+
+export type Listeners = { [K in LiaisonEvent]: EventListener[] }
+
+/**
+ * Options for when adding event listeners
+ */
+export type ListenerOptions = {
+  /**
+   * Remove the listener once aborted
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Keeps track of the lifecycle of a single network call and emits its
+ * events. Nothing is emitted until the call is started, such that a
+ * call that never sends a request of its own stays silent.
+ */
+export class CallTracker {
+  #emit: (event: LiaisonEvent, payload: CallEvent) => void
+  #name: string | undefined
+  #request: () => Request
+
+  #started: number | null = null
+  #startTime = 0
+  #responded: number | null = null
+  #settled = false
+
+  #attempt = 1
+  #status: number | undefined
+  #size: number | undefined
+
+  constructor(
+    emit: (event: LiaisonEvent, payload: CallEvent) => void,
+    name: string | undefined,
+    request: () => Request,
+  ) {
+    this.#emit = emit
+    this.#name = name
+    this.#request = request
+  }
+
+  start() {
+    if (this.#started !== null) return
+
+    this.#started = performance.now()
+    this.#startTime = Date.now()
+    this.#emit("start", this.#payload())
+  }
+
+  retry(attempt: number, status: number | undefined, delay: number) {
+    this.#status = status
+    this.#emit("retry", { ...this.#payload(), delay })
+    this.#attempt = attempt + 1
+    this.#responded = null
+  }
+
+  respond(response: Response) {
+    this.#status = response.status
+    this.#responded = performance.now()
+  }
+
+  /**
+   * Count the bytes of the response body as it is read
+   */
+  read(bytes: number) {
+    this.#size = bytes
+  }
+
+  succeed() {
+    this.#settle("success")
+  }
+
+  fail(error: AnyLiaisonError) {
+    this.#settle("failure", error)
+  }
+
+  #settle(event: "success" | "failure", error?: AnyLiaisonError) {
+    if (this.#started === null || this.#settled) return
+    this.#settled = true
+
+    const payload = this.#payload(error)
+    this.#emit(event, payload)
+    this.#emit("settled", payload)
+  }
+
+  #payload(error?: AnyLiaisonError): CallEvent {
+    const now = performance.now()
+    const started = this.#started ?? now
+    const request = this.#request()
+
+    return {
+      name: this.#name,
+      request,
+      url: request.url,
+      method: request.method,
+      attempt: this.#attempt,
+      status: this.#status,
+      startTime: this.#startTime,
+      duration: now - started,
+      timing: {
+        ...(this.#responded === null
+          ? {}
+          : {
+              request: this.#responded - started,
+              response: now - this.#responded,
+            }),
+      },
+      size: this.#size,
+      ...(error ? { error } : {}),
+    }
+  }
+}
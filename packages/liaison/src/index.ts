@@ -3,7 +3,96 @@ import * as Helpers from "@amono/outil/types"
 import { coerceError } from "@amono/outil"
 import type * as Concrete from "./types/concrete"
 import type * as Generics from "./types/generics"
-import { InterceptionHandler, type InterceptorEvent } from "./intercept"
+import {
+  InterceptionHandler,
+  Recovery,
+  sortInterceptors,
+  type Interceptor,
+  type InterceptorEvent,
+} from "./intercept"
+import { normalizeRetry, retryFetch } from "./retry"
+import { serializeBody } from "./serialize"
+import { trackDownload, trackUpload } from "./progress"
+import { cachedFetch } from "./cache"
+import { mergeConfig } from "./merge"
+import { joinUrl } from "./url"
+import { nextPageParams, pageItems } from "./paginate"
+import { parseSchema, resolveSchema, SchemaError, type Issue } from "./schema"
+import {
+  CallTracker,
+  type CallEvent,
+  type EventListener,
+  type ListenerOptions,
+  type Listeners,
+  type LiaisonEvent,
+} from "./events"
+import { createTimeout, mergeSignals, wait, type Timeout } from "./signal"
+import {
+  detectStreamFormat,
+  parseEventData,
+  parseEventStream,
+  parseNdjson,
+  readLines,
+} from "./stream"
+import {
+  HttpError,
+  LiaisonError,
+  NetworkError,
+  RequestValidationError,
+  ResponseValidationError,
+  TimeoutError,
+  AbortError,
+  UnexpectedError,
+  type AnyLiaisonError,
+  type ErrorContext,
+  type Stage,
+} from "./errors"
+
+export { TokenManager, type TokenManagerOptions } from "./auth"
+export { recover, Recovery } from "./intercept"
+export { MemoryCacheStore, type MemoryCacheStoreOptions } from "./cache"
+export { RateLimiter, type RateLimiterOptions } from "./limiter"
+export type {
+  CallEvent,
+  EventListener,
+  LiaisonEvent,
+  ListenerOptions,
+} from "./events"
+export {
+  liaisonKey,
+  type AnyLiaison,
+  type CallConfig,
+  type Data,
+  type KeyInputs,
+  type LiaisonKey,
+} from "./key"
+export { SchemaError, type Issue } from "./schema"
+export type { StandardSchemaV1 } from "./types/standard"
+export {
+  LiaisonClient,
+  type ClientTree,
+  type EndpointTree,
+  type LiaisonClientOptions,
+} from "./client"
+export {
+  MockTransport,
+  type MockFixture,
+  type MockReply,
+  type MockResponder,
+  type MockTransportOptions,
+} from "./mock"
+export {
+  HttpError,
+  LiaisonError,
+  NetworkError,
+  RequestValidationError,
+  ResponseValidationError,
+  TimeoutError,
+  AbortError,
+  UnexpectedError,
+  type AnyLiaisonError,
+  type Stage,
+} from "./errors"
 
 /**
  * Simple HTTP client that wraps the native `fetch` API.
@@ -28,6 +117,19 @@ export class Liaison<
    */
   partial: T
 
+  /**
+   * Name of the active profile, if any, see `setProfile`
+   */
+  profile: Generics.ProfileName<T> | null = null
+
+  listeners: Listeners = {
+    start: [],
+    retry: [],
+    success: [],
+    failure: [],
+    settled: [],
+  }
+
   /**
    * Create a new `Liaison` instance
    *
@@ -65,22 +167,35 @@ export class Liaison<
    * passed to the constructor AND any previous extends.
    */
   get config(): Helpers.Prettify<
-    Generics.NormalizedConfig<Generics.MergeConfig<typeof this>>
+    Generics.NormalizedConfig<Generics.ResolvedConfig<typeof this>>
   > {
-    let ext: any = this.extends
-    let opts: any = this.partial
+    const partials: Concrete.Config[] = []
+    for (let ext: any = this; ext; ext = ext.extends)
+      partials.unshift(
+        typeof ext.profile === "string"
+          ? { ...ext.partial, baseUrl: ext.partial.profiles[ext.profile] }
+          : ext.partial,
+      )
 
-    while (ext) {
-      opts = { ...ext.partial, ...opts }
-      ext = ext.extends
-    }
+    const opts: any = partials.reduce(mergeConfig, {})
+    if (opts.url !== undefined) opts.url = joinUrl(opts.baseUrl, opts.url)
 
-    const keys = ["params", "body", "response"] satisfies Concrete.SchemaKeys[]
+    const keys = [
+      "params",
+      "body",
+      "path",
+      "response",
+    ] satisfies Concrete.SchemaKeys[]
 
-    for (const key of keys) {
-      opts[key] ??= z.unknown()
-      if (typeof opts[key] === "function") opts[key] = opts[key](z)
-    }
+    for (const key of keys) opts[key] = resolveSchema(opts[key] ?? z.unknown())
+
+    if (opts.errors)
+      opts.errors = Object.fromEntries(
+        Object.entries(opts.errors).map(([status, schema]: [string, any]) => [
+          status,
+          resolveSchema(schema),
+        ]),
+      )
 
     return opts
   }
@@ -104,12 +219,94 @@ export class Liaison<
     }, {})
   }
 
-  #getInterceptors<Event extends InterceptorEvent>(event: Event) {
+  /**
+   * Switch the base url of this instance, and thereby of every instance
+   * extending it, to one of its `profiles`. Given `null` it switches back
+   * to its own `baseUrl`.
+   *
+   * @example
+   * ```ts
+   * api.setProfile(import.meta.env.PROD ? "production" : "local")
+   * ```
+   */
+  setProfile = (name: Generics.ProfileName<T> | null) => {
+    const { profiles = {} } = this.partial as Concrete.Config
+
+    if (name !== null && !Object.hasOwn(profiles, name))
+      throw new Error(`Unknown profile "${name}"`)
+
+    this.profile = name
+  }
+
+  /**
+   * Listen to the lifecycle events of network calls, e.g. for logging
+   * or metrics. As opposed to interceptors, listeners cannot affect the
+   * network call. Like interceptors, listeners of an instance also
+   * listen to the network calls of any instance extending it.
+   *
+   * @example
+   * ```ts
+   * instance.on("settled", event => {
+   *   metrics.record(event.name, event.duration, event.status)
+   * })
+   * ```
+   */
+  on = (
+    event: LiaisonEvent,
+    listener: EventListener,
+    options: ListenerOptions = {},
+  ) => {
+    this.listeners[event].push(listener)
+    options.signal?.addEventListener(
+      "abort",
+      () => {
+        const index = this.listeners[event].indexOf(listener)
+        if (index !== -1) this.listeners[event].splice(index, 1)
+      },
+      { once: true },
+    )
+  }
+
+  /**
+   * Run the listeners of the entire chain, from the earliest extend.
+   * A throwing listener never fails the network call, its error is passed to
+   * `reportError` where the runtime has one and swallowed otherwise.
+   */
+  #emit(event: LiaisonEvent, payload: CallEvent) {
+    for (const instance of Object.values(this.chain))
+      if (isLiaison(instance))
+        for (const listener of instance.listeners[event])
+          try {
+            listener(payload)
+          } catch (error) {
+            if (typeof globalThis.reportError === "function")
+              globalThis.reportError(error)
+          }
+  }
+
+  /**
+   * Whether any instance of the chain listens to any event
+   */
+  get #observed() {
+    return Object.values(this.chain).some(
+      e => isLiaison(e) && Object.values(e.listeners).some(e => e.length),
+    )
+  }
+
+  /**
+   * Interceptors of the entire chain in the order they run by priority
+   */
+  #getInterceptors<Event extends InterceptorEvent>(
+    event: Event,
+    filter: (interceptor: Interceptor<Event>) => boolean = () => true,
+  ) {
     const chain = Object.values(this.chain)
 
-    return Object.values(chain)
-      .map(e => (isLiaison(e) ? e.interceptors[event] : []))
-      .flat()
+    return sortInterceptors<Interceptor<Event>>(
+      chain.flatMap(e => (isLiaison(e) ? e.interceptors[event] : [])),
+    )
+      .filter(filter)
+      .map(e => e.callback)
   }
 
   get #requestPipe() {
@@ -118,9 +315,13 @@ export class Liaison<
     )
   }
 
-  get #responsePipe() {
+  /**
+   * Response interceptors that opted in to see unsuccessful responses
+   * run before a response is turned into an `HttpError`, the rest after
+   */
+  #responsePipe(unsuccessful: boolean) {
     return InterceptionHandler.createResponsePipe(
-      this.#getInterceptors("response"),
+      this.#getInterceptors("response", e => e.unsuccessful === unsuccessful),
     )
   }
 
@@ -167,12 +368,29 @@ export class Liaison<
     : [optionalConfig?: typeof this.CallConfig]
 
   /**
-   * interal method that runs native `fetch` under
-   * the hood and handles everything from intercepting
-   * to schema-parsing among other things
+   * Type of argument tuple for `pages` and `items`
    */
-  async #fetch(config?: typeof this.CallConfig) {
-    const stack = getStack()
+  private declare PageArgs: Helpers.HasRequiredFields<
+    typeof this.CallConfig
+  > extends true
+    ? [requiredConfig: typeof this.CallConfig, options?: Concrete.PageOptions]
+    : [optionalConfig?: typeof this.CallConfig, options?: Concrete.PageOptions]
+
+  /**
+   * Internal method that forms the request from the config and runs
+   * native `fetch` under the hood, handling everything from intercepting
+   * to schema-parsing of the input among other things.
+   *
+   * Resolves once the request is formed, sending it is deferred to
+   * `send` which resolves once the response interceptors have run.
+   * Consuming the response body is left to the caller, which settles
+   * the network call through the returned `fail` and `close` callbacks.
+   */
+  async #open(
+    config: typeof this.CallConfig | undefined,
+    stack: string | undefined,
+    options: OpenOptions = {},
+  ): Promise<OpenCall> {
     const instanceConfig = <Concrete.NormalizedConfig>this.config
     const callConfig = <Concrete.Calltime.NormalizedConfig>(config ?? {})
     const callConfigOverrides = callConfig.override?.(instanceConfig)
@@ -180,7 +398,9 @@ export class Liaison<
     const {
       params: paramSchema,
       body: bodySchema,
+      path: pathSchema,
       response: responseSchema,
+      errors: errorSchemas,
       handleResponse,
 
       ...instanceConfigRest
@@ -189,7 +409,21 @@ export class Liaison<
     const {
       body: bodyInput,
       params: paramsInput,
-      url: stringUrl = "somehow a missing URL found its way",
+      path: pathInput,
+      url: mergedUrl = "somehow a missing URL found its way",
+      retry,
+      timeout: timeoutMs,
+      bodyFormat,
+      responseFormat,
+      streamFormat,
+      reconnect,
+      onProgress,
+      streamUpload,
+      cache,
+      dedupe,
+      fetch: transport,
+      limiter,
+      baseUrl,
 
       ...nativeConfig
     } = {
@@ -198,54 +432,350 @@ export class Liaison<
       ...callConfigOverrides,
     }
 
+    /**
+     * The url of the config is joined with the `baseUrl` already, unlike
+     * one given by the caller, at call time or as returned by `override`
+     */
+    const callerUrl =
+      callConfigOverrides?.url !== undefined
+        ? callConfigOverrides.url !== instanceConfig.url
+        : callConfig.url !== undefined
+    const stringUrl = callerUrl ? joinUrl(baseUrl, mergedUrl) : mergedUrl
+
     /**
      * If the formation of the final request object errors at
      * some point then we can use this to pass the latest
      * successfully (altough possibly incomplete) formed request
-     * to the error interceptor to contextualise the error
+     * to the error interceptor to contextualise the error. Until the
+     * config is formed into a request, which fails on e.g. an invalid
+     * URL, it is a blank one
      */
-    let currentRequest = new Request(stringUrl, nativeConfig)
+    let currentRequest = new Request(BLANK_URL)
+    let formedRequest: Request | undefined
 
-    const finalRequest = await Promise.all([
-      paramSchema
-        .pipe(baseParamSchema)
-        .parseAsync(paramsInput, addErrorMap("URL params")),
+    const tracker = new CallTracker(
+      (event, payload) => this.#emit(event, payload),
+      (<Concrete.Config>this.partial).name,
+      () => formedRequest ?? currentRequest,
+    )
 
-      bodySchema.parseAsync(bodyInput, addErrorMap("Body")),
+    /**
+     * A network call that may be shared by several callers is not
+     * aborted by the signal of the caller, but once every caller
+     * has aborted through the controller of the shared call
+     */
+    const shared = dedupe && options.shareable ? new AbortController() : null
+    const callSignal = mergeSignals([
+      callConfig.signal,
+      callConfigOverrides?.signal,
     ])
-      .then(([params, body]) => {
-        currentRequest = new Request(setUrlParams(stringUrl, params), {
+
+    /**
+     * Signals are merged as opposed to overwritten,
+     * such that every signal along the chain is respected
+     */
+    const timeout = createTimeout(timeoutMs)
+    const signal = mergeSignals([
+      ...chainSignals(Object.values(this.chain)),
+      shared ? shared.signal : callSignal,
+      timeout?.signal,
+    ])
+
+    /**
+     * Keep track of where and when an error occurs
+     * to contextualise it for the error interceptor
+     */
+    let stage: Stage = "request"
+    let attempt = 1
+    let response: Response | undefined
+
+    const invalid =
+      (schema: RequestValidationError["schema"]) => (error: unknown) => {
+        throw new RequestValidationError(
+          schema,
+          getIssues(error),
+          { request: currentRequest, stage: "request" },
+          { cause: error },
+        )
+      }
+
+    const context = (): ErrorContext => ({
+      request: currentRequest,
+      response,
+      stage,
+    })
+
+    const close = () => timeout?.clear()
+
+    /**
+     * Errors that have already been passed through the error interceptors
+     */
+    const intercepted = new WeakSet<object>()
+
+    /**
+     * Classify any error and pass it through the error interceptors,
+     * once. An interceptor recovering from it rejects with a `Recovery`,
+     * its value validated by the `response` schema unless streaming.
+     * A value that fails to validate skips the error interceptors.
+     */
+    const fail = async (err: unknown): Promise<never> => {
+      if (err instanceof Recovery || intercepted.has(err as object)) throw err
+
+      const error = toLiaisonError(err, context(), timeout)
+      const result = await this.#errorPipe(
+        error,
+        currentRequest,
+        stage,
+        stack,
+        attempt,
+      )
+
+      tracker.fail(
+        result instanceof Error ? (result as AnyLiaisonError) : error,
+      )
+      if (result instanceof Recovery && !options.stream)
+        throw new Recovery(
+          await validate(result.value).catch(error => {
+            intercepted.add(error)
+            throw error
+          }),
+        )
+
+      if (result instanceof Error) intercepted.add(result)
+      throw result
+    }
+
+    const abort = (err: unknown) => {
+      close()
+      return fail(err)
+    }
+
+    /**
+     * Validate an unwrapped response body by the `response` schema
+     */
+    const validate = (data: unknown) =>
+      parseSchema(responseSchema, data, "Response").catch(error => {
+        throw new ResponseValidationError(
+          getIssues(error),
+          { ...context(), body: data },
+          { cause: error },
+        )
+      })
+
+    const baseRequest = await Promise.resolve()
+      .then(() => {
+        currentRequest = new Request(stringUrl, nativeConfig)
+      })
+      .then(() =>
+        Promise.all([
+          parseSchema(paramSchema, paramsInput, "URL params")
+            .then(params => parseSchema(baseParamSchema, params, "URL params"))
+            .catch(invalid("params")),
+
+          parseSchema(bodySchema, bodyInput, "Body")
+            .then(body => serializeBody(bodyFormat, body, nativeConfig.headers))
+            .catch(invalid("body")),
+
+          parseSchema(pathSchema, pathInput, "Path")
+            .then(path => parseSchema(basePathSchema, path, "Path"))
+            .then(path => setPathParams(stringUrl, path))
+            .catch(invalid("path")),
+        ]),
+      )
+      .then(([params, { body, headers }, url]) => {
+        currentRequest = new Request(setUrlParams(url, params), {
           ...nativeConfig,
-          body: body as never,
+          body,
+          headers,
+          signal,
+          cache: typeof cache === "string" ? cache : undefined,
         })
 
-        return currentRequest
+        for (const [key, value] of Object.entries(options.headers ?? {}))
+          currentRequest.headers.set(key, value)
+
+        return (formedRequest = currentRequest)
       })
-      .then(async req => (currentRequest = await this.#requestPipe(req, stack)))
-      .catch(async err => {
-        const coercedError = coerceError(err)
-        throw await this.#errorPipe(
-          coercedError,
-          currentRequest,
-          "request",
-          stack,
-        )
+      .catch(err => {
+        /** A call that fails to form its request is still observed */
+        tracker.start()
+        return abort(err)
       })
 
-    return fetch(finalRequest)
-      .then(handleServerError)
-      .then(res => this.#responsePipe(res, finalRequest))
-      .then(handleResponse ?? unwrapRespone)
-      .then(res => responseSchema.parseAsync(res, addErrorMap("Response")))
-      .catch(async err => {
-        const coercedError = coerceError(err)
-        throw await this.#errorPipe(
-          coercedError,
-          finalRequest,
-          "response",
-          stack,
+    const limited = limiter
+      ? limiter.wrap(transport, nativeConfig.priority)
+      : transport
+
+    /**
+     * Cached responses are looked up by the request as it is sent, such
+     * that headers added by request interceptors are respected by `vary`
+     */
+    const cached =
+      typeof cache === "object"
+        ? cachedFetch(cache, limited, {
+            force: options.revalidate,
+            revalidate: () =>
+              void this.#fetch(config, { revalidate: true }).catch(() => {}),
+          })
+        : limited
+
+    const fetchResponse = () =>
+      retryFetch(
+        normalizeRetry(retry),
+        async nth => {
+          stage = "request"
+          attempt = nth
+
+          /**
+           * Interceptors are given a clone such that the
+           * body of the base request can be sent again
+           */
+          const intercepted = await this.#requestPipe(
+            baseRequest.clone(),
+            stack,
+          )
+
+          if (intercepted instanceof Response) {
+            stage = "response"
+            return intercepted
+          }
+
+          currentRequest = intercepted
+
+          if (onProgress && streamUpload)
+            currentRequest = await trackUpload(currentRequest, onProgress)
+
+          stage = "response"
+          return currentRequest
+        },
+        cached,
+        (context, delay) =>
+          tracker.retry(context.attempt, context.status, delay),
+      )
+
+    const observed = this.#observed
+
+    /**
+     * Response interceptors that see unsuccessful responses may send
+     * the request anew, e.g. to retry with a refreshed token
+     */
+    const send = async () =>
+      (response = await fetchResponse()
+        .then(res =>
+          this.#responsePipe(true)(
+            (response = res),
+            currentRequest,
+            stack,
+            () => fetchResponse().then(res => (response = res)),
+          ),
+        )
+        .then(res => {
+          tracker.respond(res)
+          options.onResponse?.(res, currentRequest)
+          return handleServerError(
+            (response = res),
+            currentRequest,
+            errorSchemas,
+          )
+        })
+        .then(res =>
+          onProgress || observed
+            ? trackDownload(res, progress => {
+                tracker.read(progress.loaded)
+                onProgress?.(progress)
+              })
+            : res,
+        )
+        .then(res =>
+          this.#responsePipe(false)((response = res), currentRequest, stack),
+        )
+        .catch(abort))
+
+    return {
+      request: baseRequest,
+      signal: callSignal,
+      shared,
+      config: { handleResponse, responseFormat, streamFormat, reconnect },
+      send,
+      context,
+      validate,
+      fail,
+      close,
+      tracker,
+    }
+  }
+
+  /**
+   * Network calls currently in flight that may be shared
+   * by identical calls, keyed by their request
+   */
+  #inflight = new Map<string, InflightCall>()
+
+  /**
+   * Internal method that performs the network call in its entirety,
+   * unwrapping the response and validating it by the `response` schema
+   */
+  async #fetch(config?: typeof this.CallConfig, options?: OpenOptions) {
+    const stack = getStack()
+    const call = await this.#open(config, stack, {
+      ...options,
+      shareable: !options?.onResponse,
+    }).catch(unwrapRecovery)
+
+    if (call instanceof Recovery) return call.value
+
+    const { handleResponse, responseFormat } = call.config
+
+    const run = () =>
+      call
+        .send()
+        .then(res =>
+          handleResponse
+            ? handleResponse(res)
+            : unwrapRespone(res, responseFormat),
         )
+        .then(call.validate)
+        .then(data => {
+          call.tracker.succeed()
+          return data
+        })
+        .catch(call.fail)
+        .catch(e => unwrapRecovery(e).value)
+        .finally(call.close)
+
+    if (!call.shared) {
+      call.tracker.start()
+      return run()
+    }
+
+    /**
+     * Identical calls share a single network call and settle with
+     * the very same result, each caller may still abort on its own
+     */
+    const key = await inflightKey(call.request)
+    let inflight = this.#inflight.get(key)
+
+    if (inflight) call.close()
+    else {
+      call.tracker.start()
+
+      const current = (inflight = {
+        result: run(),
+        controller: call.shared,
+        callers: 0,
       })
+
+      this.#inflight.set(key, current)
+      current.result
+        .catch(() => {})
+        .finally(() => {
+          if (this.#inflight.get(key) === current) this.#inflight.delete(key)
+        })
+    }
+
+    return joinInflight(inflight, call.signal, reason =>
+      call.fail(new AbortError(reason, call.context())),
+    )
   }
 
   /**
@@ -257,6 +787,208 @@ export class Liaison<
     return this.#fetch(config) as never
   }
 
+  /**
+   * Fire/Initiate the actual request and iterate over its streamed
+   * response, either Server-Sent Events or newline delimited JSON.
+   * Every item is validated by the `response` schema.
+   *
+   * Stop iterating, or abort through a `signal`, to cancel the request.
+   * A Server-Sent Events stream that fails on the network reconnects
+   * with the `Last-Event-ID` header of the last received event.
+   *
+   * @example
+   * ```ts
+   * for await (const token of completion.stream({ body })) {
+   *   console.log(token)
+   * }
+   * ```
+   */
+  async *stream(
+    ...[config]: typeof this.CallArgs
+  ): AsyncGenerator<Generics.StreamItem<typeof this>, void, undefined> {
+    const stack = getStack()
+    const { streamFormat, reconnect = 3 } = {
+      ...(<Concrete.NormalizedConfig>this.config),
+      ...(<Concrete.Calltime.NormalizedConfig>(config ?? {})),
+    }
+
+    let format = streamFormat
+    let lastEventId: string | undefined
+    let delay = DEFAULT_RECONNECT_DELAY
+
+    for (let reconnects = 0; ; reconnects++) {
+      let call: OpenCall | undefined
+      let response: Response | undefined
+      let error: AnyLiaisonError
+
+      try {
+        call = await this.#open(
+          config,
+          stack,
+          lastEventId === undefined
+            ? { stream: true }
+            : { stream: true, headers: { "last-event-id": lastEventId } },
+        )
+
+        call.tracker.start()
+        response = await call.send()
+        format ??= detectStreamFormat(response)
+
+        for await (const item of this.#readStream(call, response, format)) {
+          if (item.type === "event") {
+            lastEventId = item.event.id ?? lastEventId
+            delay = item.event.retry ?? delay
+          }
+
+          yield (await call.validate(item.data)) as never
+        }
+
+        return
+      } catch (err) {
+        const failure = await (
+          call ? call.fail(err) : Promise.reject(err)
+        ).catch(e => e as AnyLiaisonError | Recovery)
+
+        /** Recovering from the failure of a stream ends it */
+        if (failure instanceof Recovery) return
+        error = failure
+      } finally {
+        /** Also settles a stream that is no longer iterated over */
+        call?.tracker.succeed()
+        call?.close()
+      }
+
+      if (
+        !(error instanceof NetworkError) ||
+        format !== "sse" ||
+        reconnects >= reconnect
+      )
+        throw error
+
+      await wait(delay, error.request.signal)
+    }
+  }
+
+  /**
+   * Read the body of an opened network call as a stream of items.
+   * A failure while reading means that the connection was lost.
+   */
+  async *#readStream(
+    call: OpenCall,
+    response: Response,
+    format: Concrete.StreamFormat,
+  ) {
+    const lines = (async function* () {
+      try {
+        yield* readLines(response.body ?? new ReadableStream())
+      } catch (cause) {
+        if (call.context().request.signal.aborted) throw cause
+        throw new NetworkError(call.context(), { cause })
+      }
+    })()
+
+    if (format === "ndjson")
+      for await (const data of parseNdjson(lines))
+        yield { type: "line" as const, data }
+    else
+      for await (const event of parseEventStream(lines))
+        yield {
+          type: "event" as const,
+          event,
+          data: parseEventData(event.data),
+        }
+  }
+
+  /**
+   * Request every page of a paginated list endpoint, one at a time,
+   * as described by `paginate`. Every page is validated by the
+   * `response` schema, and requested as if by `go`.
+   *
+   * Stop iterating, or abort through a `signal`, to stop paginating.
+   * A page in flight when aborted rejects with an `AbortError`.
+   *
+   * @example
+   * ```ts
+   * for await (const page of listUsers.pages({}, { maxPages: 10 })) {
+   *   console.log(page.data)
+   * }
+   * ```
+   */
+  async *pages(
+    ...[config, options = {}]: typeof this.PageArgs
+  ): AsyncGenerator<Generics.Response<typeof this>, void, undefined> {
+    const { paginate } = <Concrete.NormalizedConfig>this.config
+    if (!paginate)
+      throw new Error("Cannot paginate a Liaison instance without `paginate`")
+
+    const { maxPages = Infinity, signal } = options
+    let callConfig = <Concrete.Calltime.NormalizedConfig>(config ?? {})
+
+    let previousUrl: string | undefined
+
+    for (let index = 0; index < maxPages && !signal?.aborted; index++) {
+      let response: Response | undefined
+      let request: Request | undefined
+      const page = await this.#fetch(
+        {
+          ...callConfig,
+          signal: mergeSignals([callConfig.signal, signal]),
+        } as never,
+        { onResponse: (res, req) => ((response = res), (request = req)) },
+      )
+
+      /**
+       * Next params that the params schema strips, or that are equal to
+       * the current ones, would otherwise request the same page forever
+       */
+      if (request && request.url === previousUrl) return
+
+      yield page as never
+      if (index + 1 >= maxPages) return
+
+      /**
+       * A page recovered by an error interceptor may have no response,
+       * and thereby nothing to tell the next page by
+       */
+      if (!response || !request) return
+      previousUrl = request.url
+
+      const params = await nextPageParams(paginate, {
+        page,
+        response,
+        request,
+        params: callConfig.params,
+        index,
+      })
+
+      if (!params) return
+      callConfig = {
+        ...callConfig,
+        params: { ...(callConfig.params as object), ...params },
+      }
+    }
+  }
+
+  /**
+   * Request every page of a paginated list endpoint like `pages`,
+   * but iterate over the items of every page, see `paginate.items`
+   *
+   * @example
+   * ```ts
+   * for await (const user of listUsers.items()) {
+   *   console.log(user.name)
+   * }
+   * ```
+   */
+  async *items(
+    ...args: typeof this.PageArgs
+  ): AsyncGenerator<Generics.PageItem<typeof this>, void, undefined> {
+    const { paginate } = <Concrete.NormalizedConfig>this.config
+
+    for await (const page of this.pages(...args))
+      yield* pageItems(paginate!, page) as Generics.PageItem<typeof this>[]
+  }
+
   /**
    * Fire/Initiate the actual request and return error if any
    * as opposed to throwing on failure
@@ -273,7 +1005,99 @@ export class Liaison<
 }
 
 /**
- * This is appended through the `Liaison` instance's `params` schema
+ * Internal options of opening a network call
+ */
+interface OpenOptions {
+  /**
+   * Headers set on the request in addition to the config
+   */
+  headers?: Record<string, string>
+
+  /**
+   * Bypass any fresh or stale cache entry, i.e. revalidate it
+   */
+  revalidate?: boolean
+
+  /**
+   * Whether the network call may be shared by identical calls,
+   * given that `dedupe` is enabled by the config
+   */
+  shareable?: boolean
+
+  /**
+   * Called with the response, and the request as it was sent, once the
+   * response interceptors have run, e.g. to read its headers. Such a
+   * network call is never shared.
+   */
+  onResponse?: (response: Response, request: Request) => void
+
+  /**
+   * Whether the response is read as a stream, which ends once an error
+   * interceptor recovers, leaving the value it recovered with unused
+   */
+  stream?: boolean
+}
+
+/**
+ * A network call that has been opened, i.e. its request is formed
+ * but is yet to be sent, and its response body to be consumed
+ */
+interface OpenCall {
+  /**
+   * The request as formed from the config, prior to interception
+   */
+  request: Request
+
+  /**
+   * Merged signal of the caller, excluding those of the chain
+   */
+  signal: AbortSignal | undefined
+
+  /**
+   * Controller aborting the network call if it may be shared
+   */
+  shared: AbortController | null
+
+  config: Pick<
+    Concrete.NormalizedConfig,
+    "handleResponse" | "responseFormat" | "streamFormat" | "reconnect"
+  >
+  send(): Promise<Response>
+  context(): ErrorContext
+  validate(data: unknown): Promise<unknown>
+  fail(error: unknown): Promise<never>
+  close(): void
+
+  /**
+   * Emits the lifecycle events of the call once started,
+   * which is left to the caller that sends the request
+   */
+  tracker: CallTracker
+}
+
+/**
+ * A network call shared by identical calls that are in flight
+ */
+interface InflightCall {
+  result: Promise<unknown>
+  controller: AbortController
+  callers: number
+}
+
+/**
+ * Milliseconds to wait before reconnecting to a Server-Sent Events
+ * stream, unless the stream itself specifies otherwise
+ */
+const DEFAULT_RECONNECT_DELAY = 3000
+
+/**
+ * URL of the request that contextualises errors thrown
+ * before the config is formed into a request
+ */
+const BLANK_URL = "about:blank"
+
+/**
+ * This validates the output of the `Liaison` instance's `params` schema
  * to enforce that said schema produces a value that can be
  * successfully serializable by the `URLSearchParams` API.
  */
@@ -288,6 +1112,62 @@ const baseParamSchema = z
   )
   .transform(v => v ?? {})
 
+/**
+ * This validates the output of the `Liaison` instance's `path` schema
+ * to enforce that said schema produces a value whose entries can
+ * be substituted into the url's placeholders.
+ */
+const basePathSchema = z
+  .union([z.undefined(), z.record(z.union([z.string(), z.number()]))], {
+    errorMap: ({}, ctx) => ({
+      message: `Path schema must produce a value that can be substituted into the url. (Record<string, string | number>) | ${ctx.defaultError}`,
+    }),
+  })
+  .transform(v => v ?? {})
+
+/**
+ * Matches `:name` and `{name}` placeholders in a url. A `:name`
+ * placeholder must directly follow a slash so that the protocol
+ * and port of an absolute url are left alone.
+ */
+const PATH_PLACEHOLDER = /\/:([^/?#.]+)|\{([^{}/?#]+)\}/g
+
+/**
+ * Substitute `:name` or `{name}` placeholders in a url string with
+ * their URL-encoded values. Throws if a placeholder has no
+ * matching value or if the value cannot be URL-encoded.
+ *
+ * Failures are thrown as a `SchemaError` so that they are reported
+ * the same way as any other failure of the `path` schema.
+ */
+function setPathParams(
+  url: string,
+  path: Record<string, Concrete.PathSegment>,
+) {
+  return url.replace(PATH_PLACEHOLDER, (match, colonName, braceName) => {
+    const name: string = colonName ?? braceName
+    const prefix = colonName ? "/" : ""
+    const value = path[name]
+
+    const fail = (message: string): never => {
+      throw new SchemaError([{ path: [name], message }])
+    }
+
+    if (value === undefined)
+      fail(
+        `Path param "${name}" is missing; required by placeholder "${match}" in url "${url}"`,
+      )
+
+    try {
+      return prefix + encodeURIComponent(value!)
+    } catch (error) {
+      return fail(
+        `Path param "${name}" could not be URL-encoded; ${coerceError(error).message}`,
+      )
+    }
+  })
+}
+
 /**
  * Append URL parameters to any valid RequstInfo; i.e.string, URL, Request, etc….
  * Returns a new Request object with appended parameters.
@@ -307,36 +1187,173 @@ function setUrlParams(
 }
 
 /**
- * This is a basic utility to unwrap response object
- * according to headers. Only handles `text` and `json`
- * which are the most typical cases.
+ * Matches `application/json` as well as vendor types
+ * with a `+json` suffix, e.g. `application/problem+json`
+ */
+const JSON_TYPE = /^application\/(?:[\w.-]+\+)?json\b/i
+
+/**
+ * Matches newline delimited JSON, i.e. one JSON value per line
+ */
+const NDJSON_TYPE = /^application\/(?:x-)?ndjson\b/i
+
+/**
+ * This is a basic utility to unwrap response object according to the
+ * given format. If no format is given it is determined by the headers,
+ * unwrapping JSON (including `+json` vendor types), NDJSON or text.
+ *
+ * A response without a body, e.g. `204` or to a `HEAD` request, as
+ * well as an empty JSON body, is unwrapped as `undefined`.
  *
- * Use Liaison's `transformResponse` for more granular
- * control, e.g. when needing `.blob()` and such.
+ * Use Liaison's `handleResponse` for more granular
+ * control, e.g. when needing to read response headers.
  */
-export function unwrapRespone(response: Response) {
+export async function unwrapRespone(
+  response: Response,
+  format?: Concrete.ResponseFormat,
+): Promise<unknown> {
   const type = response.headers.get("content-type") ?? ""
-  const unwrap = type.includes("application/json") ? "json" : "text"
+  const unwrap =
+    format ??
+    (JSON_TYPE.test(type) ? "json" : NDJSON_TYPE.test(type) ? "ndjson" : "text")
 
-  return response[unwrap]()
+  if (unwrap === "none" || response.body === null) {
+    await response.body?.cancel()
+    return undefined
+  }
+
+  switch (unwrap) {
+    case "json": {
+      const text = await response.text()
+      return text.trim() ? JSON.parse(text) : undefined
+    }
+
+    case "ndjson": {
+      const text = await response.text()
+      return text
+        .split("\n")
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line))
+    }
+
+    default:
+      return response[unwrap]()
+  }
 }
 
 /**
  * Makes a non succesful status code catchable (outside 200-range).
  * Unwraps response to also output any server error message, if any.
  * If status is succesful, it will return response as is.
+ *
+ * A body of a status that is documented by an error schema has
+ * to satisfy said schema, otherwise it is a schema drift like
+ * any other failure of the `response` schema.
  */
-async function handleServerError(res: Response) {
-  if (res.ok) return res
+async function handleServerError(
+  response: Response,
+  request: Request,
+  errorSchemas: Record<number, Concrete.Schema> = {},
+) {
+  if (response.ok) return response
 
-  throw new Error(
-    [
-      `code: ${res.status}`,
-      `type: ${res.type}`,
-      `text: "${res.statusText}`,
-      `server-response: ${await res.text()}`,
-    ].join(", "),
+  const text = await response.text().catch(() => "")
+  let body: unknown = text
+
+  if (JSON_TYPE.test(response.headers.get("content-type") ?? ""))
+    try {
+      body = JSON.parse(text)
+    } catch {}
+
+  const context = { request, response, stage: "response" as const, body }
+  const schema = errorSchemas[response.status]
+
+  if (!schema) throw new HttpError(context, false)
+
+  const parsed = await parseSchema(
+    schema,
+    body,
+    `Error ${response.status}`,
+  ).catch(error => {
+    throw new ResponseValidationError(getIssues(error), context, {
+      cause: error,
+    })
+  })
+
+  throw new HttpError({ ...context, body: parsed }, true)
+}
+
+/**
+ * Classify any error thrown during a network call as one of the
+ * `LiaisonError`s. Errors that are already classified are left as is.
+ */
+function toLiaisonError(
+  error: unknown,
+  context: ErrorContext,
+  timeout: Timeout | null,
+): AnyLiaisonError {
+  if (error instanceof LiaisonError) return error as AnyLiaisonError
+
+  if (timeout?.signal.aborted)
+    return new TimeoutError(timeout.ms, context, { cause: error })
+
+  if (context.request.signal.aborted)
+    return new AbortError(context.request.signal.reason, context)
+
+  if (
+    context.stage === "response" &&
+    !context.response &&
+    error instanceof TypeError
   )
+    return new NetworkError(context, { cause: error })
+
+  return new UnexpectedError(coerceError(error), context)
+}
+
+/**
+ * Issues of a failed schema parse. Errors thrown from
+ * elsewhere, e.g. when serializing, are not a `SchemaError`.
+ */
+function getIssues(error: unknown): Issue[] {
+  if (error instanceof SchemaError) return error.issues
+
+  return [{ path: [], message: coerceError(error).message }]
+}
+
+/**
+ * Identify identical calls by the method, url and serialized body
+ * of their request; headers are deliberately left out.
+ */
+async function inflightKey(request: Request) {
+  const body = request.body ? await request.clone().text() : ""
+  return `${request.method} ${request.url}\n${body}`
+}
+
+/**
+ * Settle with the result of a shared network call, or early with an
+ * `AbortError` once the signal of the caller aborts. The network call
+ * itself is only aborted when every one of its callers has aborted.
+ */
+function joinInflight(
+  inflight: InflightCall,
+  signal: AbortSignal | undefined,
+  abort: (reason: unknown) => Promise<never>,
+): Promise<unknown> {
+  inflight.callers++
+
+  return new Promise((resolve, reject) => {
+    const leave = () => {
+      if (--inflight.callers === 0) inflight.controller.abort(signal?.reason)
+      abort(signal?.reason).catch(reject)
+    }
+
+    if (signal?.aborted) return leave()
+    signal?.addEventListener("abort", leave, { once: true })
+
+    inflight.result
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener("abort", leave))
+  })
 }
 
 function isLiaison(value: unknown): value is Liaison<{}> {
@@ -344,15 +1361,25 @@ function isLiaison(value: unknown): value is Liaison<{}> {
 }
 
 /**
- * Add a small prefix to the errors of Zod schema's to better
- * identify what schema the error is accosiated with.
+ * Signals of the chain, from the earliest extend. An instance that
+ * overrides or removes `signal` through `merge` drops the inherited ones.
  */
-function addErrorMap(schemaType: string): Partial<z.ParseParams> {
-  return {
-    errorMap: ({}, ctx) => ({
-      message: `${schemaType} schema | ${ctx.defaultError}`,
-    }),
-  }
+function chainSignals(chain: unknown[]) {
+  return chain.reduce<Array<AbortSignal | null | undefined>>((signals, e) => {
+    if (!isLiaison(e)) return signals
+
+    const { signal, merge } = e.partial as Concrete.Config
+    return merge?.signal ? [signal] : [...signals, signal]
+  }, [])
+}
+
+/**
+ * Unwrap a `Recovery`, which is rejected with such that it skips the
+ * remaining steps of the call, rethrowing any other error
+ */
+function unwrapRecovery(error: unknown) {
+  if (error instanceof Recovery) return error
+  throw error
 }
 
 /**
@@ -1,4 +1,5 @@
 import type { Prettify } from "@amono/outil/types"
+import type { AnyLiaisonError, Stage } from "./errors"
 
 export class InterceptionHandler {
   interceptors: Interceptors = {
@@ -29,17 +30,65 @@ export class InterceptionHandler {
     callback: CallbackMap[Event],
     options: InterceptorOptions = {},
   ) => {
-    this.interceptors[event].push(callback)
+    const interceptor: Interceptor<Event> = {
+      callback,
+      name: options.name ?? (callback.name || undefined),
+      priority: options.priority ?? 0,
+      unsuccessful: options.unsuccessful ?? false,
+    }
+
+    this.interceptors[event].push(interceptor)
     options.signal?.addEventListener(
       "abort",
       () => {
-        const index = this.interceptors[event].indexOf(callback)
-        this.interceptors[event].splice(index, 1)
+        const index = this.interceptors[event].indexOf(interceptor)
+        if (index !== -1) this.interceptors[event].splice(index, 1)
       },
       { once: true },
     )
   }
 
+  /**
+   * Remove every interceptor of given name, optionally only those of
+   * given event. Returns the number of interceptors that were removed.
+   *
+   * @example
+   * ```ts
+   * instance.addInterceptor("request", addAuth)
+   * instance.removeInterceptor("addAuth")
+   * ```
+   */
+  removeInterceptor = (name: string, event?: InterceptorEvent) => {
+    let removed = 0
+
+    for (const key of event ? [event] : INTERCEPTOR_EVENTS) {
+      const list: Array<Interceptor<InterceptorEvent>> = this.interceptors[key]
+      const kept = list.filter(e => e.name !== name)
+
+      removed += list.length - kept.length
+      list.splice(0, list.length, ...kept)
+    }
+
+    return removed
+  }
+
+  /**
+   * Interceptors added to this very instance, optionally only those
+   * of given event, in the order they run by their priority
+   */
+  listInterceptors = (event?: InterceptorEvent) =>
+    (event ? [event] : INTERCEPTOR_EVENTS).flatMap(key =>
+      sortInterceptors<Interceptor<InterceptorEvent>>(
+        this.interceptors[key],
+      ).map(
+        ({ name, priority }): InterceptorEntry => ({
+          event: key,
+          name,
+          priority,
+        }),
+      ),
+    )
+
   /**
    * Static helper method that takes an array of
    * interceptor callbacks of the same type
@@ -47,20 +96,39 @@ export class InterceptionHandler {
    * that runs the entire pipeline of intercepors.
    */
 
-  /** */
-
+  /**
+   * Once an interceptor recovers from the error by returning a
+   * `Recovery`, the remaining ones are skipped. An interceptor
+   * returning neither an `Error` nor a `Recovery` passes on the
+   * error it was given, e.g. one that only logs it.
+   */
   static createErrorPipe(
     cbs: Array<CallbackMap["error"]>,
   ): CallbackMap["error"] {
     return (acc, ...ctx) =>
-      cbs.reduce(async (a, e) => e(await a, ...ctx), Promise.resolve(acc))
+      cbs.reduce<Promise<Error | Recovery>>(async (a, e) => {
+        const value = await a
+        if (value instanceof Recovery) return value
+
+        const result: unknown = await e(value as never, ...ctx)
+        return result instanceof Error || result instanceof Recovery
+          ? result
+          : value
+      }, Promise.resolve(acc))
   }
 
+  /**
+   * Once an interceptor returns a `Response`, the remaining
+   * ones are skipped along with sending the request
+   */
   static createRequestPipe(
     cbs: Array<CallbackMap["request"]>,
   ): CallbackMap["request"] {
     return (acc, ...ctx) =>
-      cbs.reduce(async (a, e) => e(await a, ...ctx), Promise.resolve(acc))
+      cbs.reduce<Promise<Request | Response>>(async (a, e) => {
+        const value = await a
+        return value instanceof Response ? value : e(value, ...ctx)
+      }, Promise.resolve(acc))
   }
 
   static createResponsePipe(
@@ -87,6 +155,36 @@ export type InterceptorOptions = {
    * more ergonomic approach than removing listeners by callback reference.
    */
   signal?: AbortSignal
+
+  /**
+   * Name to list and remove the interceptor by.
+   * Defaults to the name of the callback function, if any
+   */
+  name?: string
+
+  /**
+   * Interceptors of a higher priority run first, regardless of which
+   * instance of the chain they were added to. Those of equal priority
+   * run from the earliest extend, in the order they were added.
+   * Defaults to `0`
+   */
+  priority?: number
+
+  /**
+   * Also run a response interceptor for unsuccessful responses, i.e.
+   * with a status outside the 200-range, before they become an
+   * `HttpError`. Only these may `replay` the request. Defaults to `false`
+   */
+  unsuccessful?: boolean
+}
+
+/**
+ * An interceptor as listed by `listInterceptors`
+ */
+export type InterceptorEntry = {
+  event: InterceptorEvent
+  name: string | undefined
+  priority: number
 }
 
 /**
@@ -96,24 +194,82 @@ export type InterceptorOptions = {
  *
  * Any potential other arguments are for context, e.g. when intercepting
  * an error you can use `Request` object to show other contextual information
- * like the url.
+ * like the url, or the `attempt` number the error occured at when retrying.
+ *
+ * Response interceptors see successful responses only, unless added with
+ * `unsuccessful`, in which case they see every response before it may
+ * become an `HttpError`, and may `replay` the request. It is sent anew
+ * through the request interceptors, resolving with the response as is,
+ * i.e. without running the response interceptors again.
+ *
+ * A request interceptor may return a `Response` instead of a `Request`,
+ * e.g. from a cache, which is then used as is without sending the
+ * request. An error interceptor may recover from the error by returning
+ * `recover(value)`, which the network call then resolves with.
  */
 interface CallbackMap {
-  request(request: Request, callStack?: string): Promise<Request>
+  request(request: Request, callStack?: string): Promise<Request | Response>
 
   response(
     response: Response,
     request: Request,
     callStack?: string,
+    replay?: () => Promise<Response>,
   ): Promise<Response>
 
   error(
-    error: Error,
+    error: AnyLiaisonError,
     request: Request,
-    when: "request" | "response",
+    when: Stage,
     callStack?: string,
-  ): Promise<Error>
+    attempt?: number,
+  ): Promise<Error | Recovery>
 }
 
-type Interceptors = { [K in keyof CallbackMap]: Array<CallbackMap[K]> }
+export type Interceptor<K extends keyof CallbackMap> = {
+  callback: CallbackMap[K]
+  name: string | undefined
+  priority: number
+  unsuccessful: boolean
+}
+
+type Interceptors = { [K in keyof CallbackMap]: Array<Interceptor<K>> }
 export type InterceptorEvent = Prettify<keyof Interceptors>
+
+const INTERCEPTOR_EVENTS: InterceptorEvent[] = ["request", "response", "error"]
+
+/**
+ * Value an error interceptor recovered from the failure of a network
+ * call with, as returned by `recover`
+ */
+export class Recovery<T = unknown> {
+  constructor(public value: T) {}
+}
+
+/**
+ * Recover from the failure of a network call within an error interceptor,
+ * resolving the call with given value instead. The value is validated by
+ * the `response` schema, like a response body would be.
+ *
+ * @example
+ * ```ts
+ * instance.addInterceptor("error", async error =>
+ *   error instanceof HttpError && error.status === 404
+ *     ? recover([])
+ *     : error,
+ * )
+ * ```
+ */
+export function recover<T>(value: T) {
+  return new Recovery(value)
+}
+
+/**
+ * Order interceptors by priority. Sorting is stable, so
+ * those of equal priority keep the order they were given in.
+ */
+export function sortInterceptors<T extends { priority: number }>(
+  interceptors: T[],
+) {
+  return [...interceptors].sort((a, b) => b.priority - a.priority)
+}
@@ -0,0 +1,76 @@
+import type { Liaison } from "./index"
+import type * as Concrete from "./types/concrete"
+
+/**
+ * The parts of a call that identify the data it resolves with
+ */
+export interface KeyInputs {
+  method: string
+  url: string | undefined
+  params?: unknown
+  path?: unknown
+  body?: unknown
+}
+
+export type LiaisonKey = [...names: string[], inputs: KeyInputs]
+
+/**
+ * Any instance, regardless of its config and the instance it extends
+ */
+export type AnyLiaison = Liaison<any, any>
+
+/**
+ * Call config of `go` and `safeGo` of an instance
+ */
+export type CallConfig<T extends AnyLiaison> = Parameters<T["go"]>[0]
+
+/**
+ * Resolved value of a successful network call of an instance
+ */
+export type Data<T extends AnyLiaison> = Awaited<ReturnType<T["go"]>>
+
+/**
+ * Deterministic key of a network call, e.g. to cache its result by.
+ *
+ * Keys are hierarchical; the names of every instance of the chain from
+ * the earliest extend, followed by the inputs of the call. The key of an
+ * instance without a call config is thus a prefix of the key of any call
+ * of said instance, or of any instance extending it.
+ *
+ * @example
+ * ```ts
+ * liaisonKey(getUser, { path: { id: 1 } })
+ * // ["defaults", "getUser", { method: "GET", url: "/users/:id", path: { id: 1 } }]
+ *
+ * liaisonKey(defaults)
+ * // ["defaults"]
+ * ```
+ */
+export function liaisonKey(instance: Liaison<any, any>): string[]
+export function liaisonKey(
+  instance: Liaison<any, any>,
+  config: object | undefined,
+): LiaisonKey
+export function liaisonKey(
+  instance: Liaison<any, any>,
+  ...[config]: [config?: object]
+) {
+  const names = Object.values(instance.chain as object).map(
+    (e: Liaison<any, any>) => (e.partial as Concrete.Config).name ?? "unnamed",
+  )
+
+  if (arguments.length < 2) return names
+
+  const base = instance.config as Concrete.Config
+  const call = (config ?? {}) as Concrete.Calltime.NormalizedConfig
+
+  const inputs: KeyInputs = {
+    method: (call.method ?? base.method ?? "GET").toUpperCase(),
+    url: call.url ?? base.url,
+  }
+
+  for (const key of ["params", "path", "body"] as const)
+    if (call[key] !== undefined) inputs[key] = call[key]
+
+  return [...names, inputs]
+}
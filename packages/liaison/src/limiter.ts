@@ -0,0 +1,239 @@
+import type * as Concrete from "./types/concrete"
+import { defaultTransport, parseRetryAfter } from "./retry"
+
+export interface RateLimiterOptions {
+  /**
+   * Maximum number of requests in flight at once, i.e. that are yet to
+   * receive the headers of their response. Defaults to `Infinity`
+   */
+  concurrency?: number
+
+  /**
+   * Maximum number of requests sent per `interval`. Defaults to `Infinity`
+   */
+  limit?: number
+
+  /**
+   * Milliseconds of the sliding window that `limit` applies to.
+   * Defaults to `1000`
+   */
+  interval?: number
+
+  /**
+   * Order in which queued requests are sent; either first in, first out,
+   * or by the native `priority` of the request, i.e. `high` before
+   * `auto` before `low`, and first in, first out among equals.
+   * Defaults to `fifo`
+   */
+  order?: "fifo" | "priority"
+
+  /**
+   * Pause sending requests once a response has the status `429`, for as
+   * long as its `Retry-After`, `RateLimit-Reset` or `X-RateLimit-Reset`
+   * header says, or for an `interval` without any. Defaults to `true`
+   */
+  pauseOnLimit?: boolean
+}
+
+/**
+ * A request waiting to be sent
+ */
+interface QueuedTask {
+  priority: number
+  start: () => void
+}
+
+const PRIORITIES: Record<RequestPriority, number> = {
+  high: 0,
+  auto: 1,
+  low: 2,
+}
+
+/**
+ * Reset headers larger than this are unix timestamps rather than seconds
+ */
+const TIMESTAMP_THRESHOLD = 1_000_000_000
+
+/**
+ * Caps the number of concurrent requests and requests per interval,
+ * queueing any excess. Pass the very same limiter to several instances
+ * through `limiter`, or to a base instance, to share its limits.
+ *
+ * @example
+ * ```ts
+ * const limiter = new RateLimiter({ limit: 10, interval: 1000 })
+ * const defaults = new Liaison({ limiter })
+ * ```
+ */
+export class RateLimiter {
+  #concurrency: number
+  #limit: number
+  #interval: number
+  #order: "fifo" | "priority"
+  #pauseOnLimit: boolean
+
+  #queue: QueuedTask[] = []
+  #active = 0
+  #sent: number[] = []
+  #pausedUntil = 0
+  #timer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.#concurrency = options.concurrency ?? Infinity
+    this.#limit = options.limit ?? Infinity
+    this.#interval = options.interval ?? 1000
+    this.#order = options.order ?? "fifo"
+    this.#pauseOnLimit = options.pauseOnLimit ?? true
+  }
+
+  /**
+   * Number of requests waiting to be sent
+   */
+  get pending() {
+    return this.#queue.length
+  }
+
+  /**
+   * Number of requests in flight
+   */
+  get active() {
+    return this.#active
+  }
+
+  /**
+   * Milliseconds until requests are sent again, if paused
+   */
+  get resumesIn() {
+    return Math.max(0, this.#pausedUntil - Date.now())
+  }
+
+  /**
+   * Limit a transport, e.g. native `fetch`. A request waiting to be sent
+   * rejects with the abort reason of its signal once aborted.
+   */
+  wrap(
+    transport: Concrete.Transport = defaultTransport,
+    priority: RequestPriority = "auto",
+  ): Concrete.Transport {
+    return request =>
+      this.schedule(
+        async () => {
+          const response = await transport(request)
+          if (response.status === 429 && this.#pauseOnLimit)
+            this.pause(getResetDelay(response.headers) ?? this.#interval)
+
+          return response
+        },
+        { signal: request.signal, priority },
+      )
+  }
+
+  /**
+   * Run a task once the limits allow, counting it as a single request
+   * that is in flight until the task settles
+   */
+  schedule<R>(
+    task: () => Promise<R>,
+    options: { signal?: AbortSignal; priority?: RequestPriority } = {},
+  ): Promise<R> {
+    const { signal, priority = "auto" } = options
+
+    return new Promise<R>((resolve, reject) => {
+      signal?.throwIfAborted()
+
+      const abort = () => {
+        const index = this.#queue.indexOf(queued)
+        if (index !== -1) this.#queue.splice(index, 1)
+        reject(signal!.reason)
+      }
+
+      const queued: QueuedTask = {
+        priority: this.#order === "priority" ? PRIORITIES[priority] : 0,
+        start: () => {
+          signal?.removeEventListener("abort", abort)
+          this.#active++
+          this.#sent.push(Date.now())
+
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.#active--
+              this.#drain()
+            })
+        },
+      }
+
+      const index = this.#queue.findIndex(e => e.priority > queued.priority)
+      this.#queue.splice(index === -1 ? this.#queue.length : index, 0, queued)
+
+      signal?.addEventListener("abort", abort, { once: true })
+      this.#drain()
+    })
+  }
+
+  /**
+   * Stop sending requests for given milliseconds, requests already
+   * in flight are left alone
+   */
+  pause(ms: number) {
+    this.#pausedUntil = Math.max(this.#pausedUntil, Date.now() + ms)
+    this.#drain()
+  }
+
+  /**
+   * Send as many queued requests as the limits allow, and check
+   * back once the first of the limits that prevent it is lifted
+   */
+  #drain() {
+    clearTimeout(this.#timer)
+    this.#timer = undefined
+
+    while (this.#queue.length) {
+      const delay = this.#delay()
+
+      /** Drained anew once a request in flight settles */
+      if (delay === null) return
+
+      if (delay > 0) {
+        this.#timer = setTimeout(() => this.#drain(), delay)
+        return
+      }
+
+      this.#queue.shift()!.start()
+    }
+  }
+
+  /**
+   * Milliseconds until another request may be sent, `null`
+   * if it has to wait for a request in flight to settle
+   */
+  #delay() {
+    if (this.#active >= this.#concurrency) return null
+
+    const now = Date.now()
+    if (this.#pausedUntil > now) return this.#pausedUntil - now
+
+    this.#sent = this.#sent.filter(e => e > now - this.#interval)
+    if (this.#sent.length < this.#limit) return 0
+
+    return this.#sent[0]! + this.#interval - now
+  }
+}
+
+/**
+ * Milliseconds until the quota of a rate limited response resets
+ * https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/
+ */
+function getResetDelay(headers: Headers) {
+  const retryAfter = parseRetryAfter(headers.get("retry-after"))
+  if (retryAfter !== null) return retryAfter
+
+  const reset = Number(
+    headers.get("ratelimit-reset") ?? headers.get("x-ratelimit-reset"),
+  )
+
+  if (!reset || !Number.isFinite(reset)) return null
+  if (reset < TIMESTAMP_THRESHOLD) return Math.max(0, reset * 1000)
+
+  return Math.max(0, reset * 1000 - Date.now())
+}
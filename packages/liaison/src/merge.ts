@@ -0,0 +1,64 @@
+import type * as Concrete from "./types/concrete"
+import { resolveSchema, SchemaIntersection } from "./schema"
+import { joinUrl } from "./url"
+
+/**
+ * Strategies of fields that are not simply overridden by default
+ */
+const DEFAULT_STRATEGIES: Concrete.MergeStrategies = {
+  headers: "merge",
+  baseUrl: "join",
+}
+
+/**
+ * Merge the partial config of an instance into the config it inherits
+ * through `extends`, field by field according to its `merge` strategies.
+ * The `merge` field itself only applies to said instance, and `profiles`
+ * are expected to already be resolved as the `baseUrl` of the instance.
+ */
+export function mergeConfig(
+  inherited: Concrete.Config,
+  partial: Concrete.Config,
+): Concrete.Config {
+  const { merge, profiles, ...own } = partial
+  const strategies: Record<string, Concrete.MergeStrategy | undefined> = {
+    ...DEFAULT_STRATEGIES,
+    ...merge,
+  }
+
+  const config: Record<string, unknown> = { ...inherited }
+
+  for (const [key, strategy] of Object.entries(strategies))
+    if (strategy === "remove") delete config[key]
+
+  for (const [key, value] of Object.entries(own)) {
+    const current = config[key]
+
+    config[key] =
+      current === undefined || value === undefined
+        ? value
+        : strategies[key] === "merge"
+          ? mergeHeaders(current as HeadersInit, value as HeadersInit)
+          : strategies[key] === "join"
+            ? joinUrl(current as string, value as string)
+            : strategies[key] === "intersect"
+              ? new SchemaIntersection(
+                  resolveSchema(current as Concrete.SchemaConfig),
+                  resolveSchema(value as Concrete.SchemaConfig),
+                )
+              : value
+  }
+
+  return config
+}
+
+/**
+ * Header names are case-insensitive, the result has them lowercased
+ * as by the `Headers` API, e.g. `Content-Type` as `content-type`
+ */
+function mergeHeaders(inherited: HeadersInit, own: HeadersInit) {
+  const headers = new Headers(inherited)
+  for (const [name, value] of new Headers(own)) headers.set(name, value)
+
+  return Object.fromEntries(headers)
+}
@@ -0,0 +1,327 @@
+import type * as Concrete from "./types/concrete"
+import type * as Generics from "./types/generics"
+import type { Liaison } from "./index"
+import { wait } from "./signal"
+import { isAbsoluteUrl } from "./url"
+
+/**
+ * A canned response. A `body` that is not already a valid fetch body
+ * is sent as JSON, except strings which are sent as plain text, each
+ * with a matching `Content-Type` header unless one is already set.
+ */
+export interface MockReply<Body = unknown> {
+  status?: number
+  statusText?: string
+  headers?: HeadersInit
+  body?: Body
+
+  /**
+   * Milliseconds to wait before responding, aborted along with the request
+   */
+  delay?: number
+}
+
+/**
+ * Either a canned response or a function of the request and any
+ * placeholders of the route pattern that responds to it
+ */
+export type MockResponder<Body = unknown> =
+  | MockReply<Body>
+  | Response
+  | ((
+      request: Request,
+      params: Record<string, string>,
+    ) => MockReply<Body> | Response | Promise<MockReply<Body> | Response>)
+
+/**
+ * A recorded request and its response, serializable to JSON. Bodies
+ * are kept as text, so binary bodies are not recorded faithfully.
+ */
+export interface MockFixture {
+  method: string
+  url: string
+  body?: string
+  response: {
+    status: number
+    statusText: string
+    headers: Array<[name: string, value: string]>
+    body: string
+  }
+}
+
+export interface MockTransportOptions {
+  /**
+   * Previously recorded fixtures to replay, matched by the
+   * method, url and body of a request. Routes take precedence.
+   */
+  fixtures?: MockFixture[]
+
+  /**
+   * Send requests that match neither a route nor a fixture through
+   * `passthrough` and record them as fixtures, see `toJSON`
+   */
+  record?: boolean
+
+  /**
+   * Transport used when recording. Defaults to native `fetch`
+   */
+  passthrough?: Concrete.Transport
+}
+
+/**
+ * A transport for the `fetch` config that responds from routes defined
+ * up front or recorded fixtures instead of hitting the network.
+ *
+ * A request matching no route nor fixture fails, unless recording,
+ * in which case it is sent for real and its response recorded.
+ *
+ * @example
+ * ```ts
+ * const mock = new MockTransport()
+ *   .on(user, { body: { id: 1, name: "Ada" } })
+ *   .route("DELETE", "/api/users/:id", { status: 204 })
+ *
+ * const api = new Liaison({ fetch: mock.fetch })
+ * ```
+ */
+export class MockTransport {
+  #routes: Array<{
+    method: string
+    match: (url: URL) => Record<string, string> | null
+    respond: MockResponder
+  }> = []
+
+  #options: MockTransportOptions
+
+  /**
+   * Fixtures to replay, appended to when recording
+   */
+  fixtures: MockFixture[]
+
+  /**
+   * Every request received, in order, e.g. to assert on in tests
+   */
+  calls: Request[] = []
+
+  constructor(options: MockTransportOptions = {}) {
+    this.#options = options
+    this.fixtures = [...(options.fixtures ?? [])]
+  }
+
+  /**
+   * Respond to requests to the method and url of a `Liaison` instance.
+   * A canned `body` is type-checked against the input of its `response`
+   * schema, such that mocks cannot drift from the types of the instance.
+   */
+  on<T extends Liaison<any, any>>(
+    instance: T,
+    respond: MockResponder<Generics.ResponseInput<T>>,
+  ) {
+    const { method = "GET", url } = instance.config as Concrete.Config
+
+    if (!url) throw new Error("Cannot mock a Liaison instance without a url")
+
+    return this.route(method, url, respond as MockResponder)
+  }
+
+  /**
+   * Respond to requests of a method, or `*` for any method, whose url
+   * matches a pattern. A pattern without a scheme is matched against
+   * the pathname only, a relative one as if it started with `/`. It may
+   * contain `:name` or `{name}` placeholders, passed on as `params`,
+   * and `*` wildcards. A `RegExp` is matched against the entire url,
+   * its named groups passed on as `params`.
+   */
+  route(method: string, pattern: string | RegExp, respond: MockResponder) {
+    this.#routes.push({
+      method: method.toUpperCase(),
+      match: compilePattern(pattern),
+      respond,
+    })
+
+    return this
+  }
+
+  /**
+   * Remove every route and forget every call, fixtures are kept
+   */
+  reset() {
+    this.#routes = []
+    this.calls = []
+  }
+
+  /**
+   * The transport itself, pass this as the `fetch` config
+   */
+  fetch: Concrete.Transport = async request => {
+    this.calls.push(request)
+
+    const url = new URL(request.url)
+
+    for (const route of this.#routes) {
+      if (route.method !== "*" && route.method !== request.method) continue
+
+      const params = route.match(url)
+      if (!params) continue
+
+      const reply =
+        typeof route.respond === "function"
+          ? await route.respond(request, params)
+          : route.respond
+
+      return respond(reply, request.signal)
+    }
+
+    const body = request.body ? await request.clone().text() : undefined
+    const fixture = this.fixtures.find(
+      e =>
+        e.method === request.method &&
+        e.url === request.url &&
+        (e.body ?? "") === (body ?? ""),
+    )
+
+    if (fixture)
+      return new Response(fixture.response.body || null, fixture.response)
+
+    if (!this.#options.record)
+      throw new Error(`No mock route matches ${request.method} ${request.url}`)
+
+    const passthrough = this.#options.passthrough ?? fetch
+    const response = await passthrough(request)
+
+    /**
+     * Recorded in the background such that
+     * streamed responses are not held back
+     */
+    void response
+      .clone()
+      .text()
+      .then(text =>
+        this.fixtures.push({
+          method: request.method,
+          url: request.url,
+          ...(body === undefined ? {} : { body }),
+          response: {
+            status: response.status,
+            statusText: response.statusText,
+            headers: [...response.headers].filter(
+              ([name]) => !UNRECORDED_HEADERS.includes(name),
+            ),
+            body: text,
+          },
+        }),
+      )
+      .catch(() => {})
+
+    return response
+  }
+
+  /**
+   * The fixtures, such that `JSON.stringify` of the
+   * transport produces a file that can be replayed
+   */
+  toJSON() {
+    return this.fixtures
+  }
+}
+
+/**
+ * No longer accurate once the body is recorded as decoded text
+ */
+const UNRECORDED_HEADERS = ["content-encoding", "content-length"]
+
+/**
+ * Matches `:name` and `{name}` placeholders and `*` wildcards of a route
+ */
+const ROUTE_TOKEN = /\/:([^/?#.]+)|\{([^{}/?#]+)\}|\*/g
+
+/**
+ * Create a function that matches a url by a route
+ * pattern, returning its params if it does
+ */
+function compilePattern(pattern: string | RegExp) {
+  if (pattern instanceof RegExp)
+    return (url: URL) => {
+      const match = pattern.exec(url.href)
+      return match ? { ...match.groups } : null
+    }
+
+  const absolute = isAbsoluteUrl(pattern)
+  const stripped = pattern.replace(/[?#].*$/, "")
+  const path = absolute || stripped.startsWith("/") ? stripped : `/${stripped}`
+  const names: string[] = []
+
+  let source = ""
+  let last = 0
+
+  for (const token of path.matchAll(ROUTE_TOKEN)) {
+    source += escapeRegExp(path.slice(last, token.index))
+    last = token.index + token[0].length
+
+    if (token[0] === "*") {
+      source += ".*"
+      continue
+    }
+
+    names.push(token[1] ?? token[2]!)
+    source += token[1] === undefined ? "([^/]+)" : "/([^/]+)"
+  }
+
+  const regexp = new RegExp(`^${source}${escapeRegExp(path.slice(last))}/?$`)
+
+  return (url: URL) => {
+    const match = regexp.exec(
+      absolute ? url.origin + url.pathname : url.pathname,
+    )
+    if (!match) return null
+
+    return Object.fromEntries(
+      names.map((name, i) => [name, decodeURIComponent(match[i + 1]!)]),
+    )
+  }
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Turn a canned reply into a response. A canned `Response` is cloned,
+ * as its body can only be read once but the route may match again.
+ */
+async function respond(reply: MockReply | Response, signal: AbortSignal) {
+  if (reply instanceof Response) return reply.clone()
+
+  const { status = 200, statusText, headers: headersInit, delay } = reply
+  const headers = new Headers(headersInit)
+
+  if (delay) await wait(delay, signal)
+
+  let body = reply.body
+
+  if (typeof body === "string") {
+    if (!headers.has("content-type"))
+      headers.set("content-type", "text/plain;charset=UTF-8")
+  } else if (body !== undefined && !isBodyInit(body)) {
+    body = JSON.stringify(body)
+    if (!headers.has("content-type"))
+      headers.set("content-type", "application/json")
+  }
+
+  return new Response((body as BodyInit | undefined) ?? null, {
+    status,
+    statusText,
+    headers,
+  })
+}
+
+function isBodyInit(value: unknown): value is BodyInit {
+  return (
+    value instanceof Blob ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    value instanceof FormData ||
+    value instanceof URLSearchParams ||
+    value instanceof ReadableStream
+  )
+}
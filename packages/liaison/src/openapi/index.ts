@@ -0,0 +1,433 @@
+import { z } from "zod"
+import {
+  ignoreOverride,
+  zodToJsonSchema,
+  type JsonSchema7Type,
+} from "zod-to-json-schema"
+import { Liaison } from "../index"
+import { SchemaIntersection } from "../schema"
+import type * as Concrete from "../types/concrete"
+
+export type JsonSchema = JsonSchema7Type
+
+/**
+ * The parts of an OpenAPI 3.1 document produced by `toOpenAPI`
+ * https://spec.openapis.org/oas/v3.1.0
+ */
+export interface Document {
+  openapi: "3.1.0"
+  info: Info
+  servers?: Server[]
+  paths: Record<string, Record<string, Operation>>
+  components?: { schemas: Record<string, JsonSchema> }
+}
+
+export interface Info {
+  title: string
+  version: string
+  description?: string
+}
+
+export interface Server {
+  url: string
+  description?: string
+}
+
+export interface Operation {
+  operationId?: string
+  servers?: Server[]
+  parameters?: Parameter[]
+  requestBody?: {
+    required: boolean
+    content: Record<string, { schema: JsonSchema }>
+  }
+  responses: Record<string, Response>
+}
+
+export interface Parameter {
+  name: string
+  in: "query" | "path"
+  required: boolean
+  description?: string
+  schema: JsonSchema
+}
+
+export interface Response {
+  description: string
+  content?: Record<string, { schema: JsonSchema }>
+}
+
+export interface ToOpenAPIOptions {
+  info: Info
+
+  /**
+   * Servers of the API. The url of an endpoint starting with any of
+   * these has it stripped to form its path. If omitted, the origins of
+   * absolute endpoint urls are used instead.
+   */
+  servers?: Server[]
+
+  /**
+   * Schemas to add as components by name. Wherever they are used,
+   * including by other components, they are referenced as opposed
+   * to repeated inline.
+   */
+  schemas?: Record<string, z.ZodTypeAny>
+}
+
+/**
+ * Describe `Liaison` endpoints as an OpenAPI 3.1 document, such that the
+ * contracts they define can be shared with backend teams and tooling.
+ *
+ * The `url` and `method` of an endpoint form the operation, its `name`
+ * the `operationId`, falling back to its key if given a record. The
+ * `params` and `path` schemas become parameters, `body` the request
+ * body, and `response` and `errors` the responses. Values that are
+ * not endpoints, i.e. not a `Liaison` instance with a url, are skipped
+ * such that an entire module of endpoints can be passed as is.
+ *
+ * Schemas are described by their input, except for `params`, `path`
+ * and `body` whose output is what is sent across the wire; transforms
+ * cannot be described, so it is the input of a transform that is used.
+ *
+ * @example
+ * ```ts
+ * import * as endpoints from "./api"
+ *
+ * const document = toOpenAPI(endpoints, {
+ *   info: { title: "Pet store", version: "1.0.0" },
+ * })
+ * ```
+ */
+export function toOpenAPI(
+  endpoints: Record<string, unknown> | unknown[],
+  options: ToOpenAPIOptions,
+): Document {
+  const components = new Map(
+    Object.entries(options.schemas ?? {}).map(([name, schema]) => [
+      schema._def as z.ZodTypeDef,
+      name,
+    ]),
+  )
+
+  const convert = (
+    schema: Concrete.Schema,
+    pointer: string[],
+    io: "input" | "output",
+    component?: string,
+  ) => toJsonSchema(schema, pointer, io, components, component)
+
+  const paths: Document["paths"] = {}
+  const origins = new Set<string>()
+
+  for (const [key, endpoint] of Object.entries(endpoints)) {
+    if (!(endpoint instanceof Liaison)) continue
+
+    const config = endpoint.config as Concrete.NormalizedConfig
+    if (!config.url) continue
+
+    const { origin, path } = splitUrl(config.url, options.servers)
+    const method = (config.method ?? "GET").toLowerCase()
+    const pointer = ["#", "paths", path, method]
+
+    if (paths[path]?.[method])
+      throw new Error(`Duplicate operation ${method.toUpperCase()} ${path}`)
+
+    const name =
+      (endpoint.partial as Concrete.Config).name ??
+      (Array.isArray(endpoints) ? undefined : key)
+
+    const operation: Operation = {
+      ...(name === undefined ? {} : { operationId: name }),
+      ...(origin === undefined ? {} : { servers: [{ url: origin }] }),
+      parameters: [
+        ...toParameters("path", config.path, path, convert),
+        ...toParameters("query", config.params, path, convert),
+      ],
+      responses: toResponses(config, [...pointer, "responses"], convert),
+    }
+
+    if (!operation.parameters?.length) delete operation.parameters
+    if (origin !== undefined) origins.add(origin)
+
+    if (!isUnknown(config.body)) {
+      const type = getBodyType(config)
+      operation.requestBody = {
+        required: !(
+          config.body instanceof z.ZodType && config.body.isOptional()
+        ),
+        content: {
+          [type]: {
+            schema: convert(
+              config.body,
+              [...pointer, "requestBody", "content", type, "schema"],
+              "output",
+            ),
+          },
+        },
+      }
+    }
+
+    paths[path] = { ...paths[path], [method]: operation }
+  }
+
+  /**
+   * A single origin is moved to the servers of the document
+   */
+  const servers =
+    options.servers ?? (origins.size === 1 ? [{ url: [...origins][0]! }] : [])
+
+  if (!options.servers && origins.size === 1)
+    for (const item of Object.values(paths))
+      for (const operation of Object.values(item)) delete operation.servers
+
+  const schemas = Object.fromEntries(
+    Object.entries(options.schemas ?? {}).map(([name, schema]) => [
+      name,
+      convert(schema, ["#", "components", "schemas", name], "input", name),
+    ]),
+  )
+
+  return {
+    openapi: "3.1.0",
+    info: options.info,
+    ...(servers.length ? { servers } : {}),
+    paths,
+    ...(components.size ? { components: { schemas } } : {}),
+  }
+}
+
+/**
+ * Convert a Zod schema to JSON Schema. Recursive or repeated schemas are
+ * referenced by their location in the document given by the pointer,
+ * and component schemas by name unless it is said component itself.
+ * Schemas of other validators cannot be described and allow any value.
+ */
+function toJsonSchema(
+  schema: Concrete.Schema,
+  pointer: string[],
+  io: "input" | "output",
+  components: Map<z.ZodTypeDef, string>,
+  component?: string,
+): JsonSchema {
+  if (!(schema instanceof z.ZodType)) return {}
+
+  const basePath = pointer.map(escapePointer)
+
+  const { $schema, ...json } = zodToJsonSchema(schema, {
+    target: "jsonSchema2019-09",
+    basePath,
+    $refStrategy: "root",
+    removeAdditionalStrategy: "strict",
+    effectStrategy: "input",
+    pipeStrategy: io,
+    override: (def, refs) => {
+      const name = components.get(def)
+      const root = refs.currentPath.join("/") === basePath.join("/")
+
+      return name === undefined || (root && name === component)
+        ? ignoreOverride
+        : { $ref: `#/components/schemas/${escapePointer(name)}` }
+    },
+  }) as JsonSchema & { $schema?: string }
+
+  return json
+}
+
+/**
+ * Turn the properties of a `params` or `path` object schema into
+ * parameters. Any placeholder of the path without a schema is
+ * still described as a string parameter.
+ */
+function toParameters(
+  location: Parameter["in"],
+  schema: Concrete.Schema,
+  path: string,
+  convert: (
+    ...args: [Concrete.Schema, string[], "input" | "output"]
+  ) => JsonSchema,
+): Parameter[] {
+  const placeholders =
+    location === "path"
+      ? [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => name!)
+      : []
+
+  const json = toObjectSchema(schema, convert)
+
+  const properties = { ...json.properties }
+  for (const name of placeholders) properties[name] ??= { type: "string" }
+
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...rest } = property as JsonSchema & {
+      description?: string
+    }
+
+    return {
+      name,
+      in: location,
+      required: location === "path" || !!json.required?.includes(name),
+      ...(description === undefined ? {} : { description }),
+      schema: rest,
+    }
+  })
+}
+
+type ObjectSchema = {
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+}
+
+/**
+ * JSON Schema of an object schema, the properties of intersected
+ * schemas are merged as the outputs are when validated
+ */
+function toObjectSchema(
+  schema: Concrete.Schema,
+  convert: (
+    ...args: [Concrete.Schema, string[], "input" | "output"]
+  ) => JsonSchema,
+): ObjectSchema {
+  if (schema instanceof SchemaIntersection) {
+    const left = toObjectSchema(schema.left, convert)
+    const right = toObjectSchema(schema.right, convert)
+
+    return {
+      properties: { ...left.properties, ...right.properties },
+      required: [...(left.required ?? []), ...(right.required ?? [])],
+    }
+  }
+
+  return isUnknown(schema)
+    ? {}
+    : (convert(schema, [], "output") as ObjectSchema)
+}
+
+/**
+ * Describe the successful response, and any documented error response
+ */
+function toResponses(
+  config: Concrete.NormalizedConfig,
+  pointer: string[],
+  convert: (
+    ...args: [Concrete.Schema, string[], "input" | "output"]
+  ) => JsonSchema,
+) {
+  const responses: Record<string, Response> = {}
+  const type = getResponseType(config)
+
+  responses["200"] = {
+    description: getDescription(config.response) ?? "Successful response",
+    ...(type === null
+      ? {}
+      : {
+          content: {
+            [type]: {
+              schema: isUnknown(config.response)
+                ? {}
+                : convert(
+                    config.response,
+                    [...pointer, "200", "content", type, "schema"],
+                    "input",
+                  ),
+            },
+          },
+        }),
+  }
+
+  for (const [status, schema] of Object.entries(config.errors ?? {}))
+    responses[status] = {
+      description: getDescription(schema) ?? "Error response",
+      content: {
+        "application/json": {
+          schema: convert(
+            schema,
+            [...pointer, status, "content", "application/json", "schema"],
+            "input",
+          ),
+        },
+      },
+    }
+
+  return responses
+}
+
+const BODY_TYPES: Record<Concrete.BodyFormat, string | undefined> = {
+  json: "application/json",
+  form: "multipart/form-data",
+  urlencoded: "application/x-www-form-urlencoded",
+  raw: undefined,
+}
+
+/**
+ * Content type of the request body by its `bodyFormat`, otherwise the
+ * `Content-Type` header of the config, otherwise assumed to be JSON
+ */
+function getBodyType(config: Concrete.NormalizedConfig) {
+  return (
+    BODY_TYPES[config.bodyFormat ?? "raw"] ??
+    new Headers(config.headers).get("content-type") ??
+    "application/json"
+  )
+}
+
+const RESPONSE_TYPES: Record<Concrete.ResponseFormat, string | null> = {
+  json: "application/json",
+  text: "text/plain",
+  blob: "application/octet-stream",
+  arrayBuffer: "application/octet-stream",
+  formData: "multipart/form-data",
+  ndjson: "application/x-ndjson",
+  none: null,
+}
+
+const STREAM_TYPES: Record<Concrete.StreamFormat, string> = {
+  sse: "text/event-stream",
+  ndjson: "application/x-ndjson",
+}
+
+/**
+ * Content type of the successful response, `null` if it has no body
+ */
+function getResponseType(config: Concrete.NormalizedConfig) {
+  if (config.streamFormat) return STREAM_TYPES[config.streamFormat]
+  return RESPONSE_TYPES[config.responseFormat ?? "json"]
+}
+
+/**
+ * Schemas that are omitted from the config default to `z.unknown()`
+ */
+function isUnknown(schema: Concrete.Schema) {
+  return schema instanceof z.ZodUnknown
+}
+
+/**
+ * Description given through Zod's `.describe()`
+ */
+function getDescription(schema: Concrete.Schema) {
+  return schema instanceof z.ZodType ? schema.description : undefined
+}
+
+/**
+ * Split the url of an endpoint into the server it is sent to and its path,
+ * turning `:name` placeholders into the `{name}` placeholders of OpenAPI
+ */
+function splitUrl(url: string, servers: Server[] = []) {
+  const withoutQuery = url.replace(/[?#].*$/, "")
+  const server = servers.find(e => withoutQuery.startsWith(e.url))
+  const origin = server
+    ? undefined
+    : /^[a-z][a-z\d+.-]*:\/\/[^/]+/i.exec(withoutQuery)?.[0]
+
+  const path = withoutQuery
+    .slice((server?.url ?? origin ?? "").length)
+    .replace(/\/:([^/?#.]+)/g, "/{$1}")
+
+  return { origin, path: path.startsWith("/") ? path : `/${path}` }
+}
+
+/**
+ * https://datatracker.ietf.org/doc/html/rfc6901
+ */
+function escapePointer(segment: string) {
+  return segment.replaceAll("~", "~0").replaceAll("/", "~1")
+}
@@ -0,0 +1,150 @@
+import type { Liaison } from "../index"
+import type { CallEvent } from "../events"
+
+type Attributes = Record<string, string | number | boolean | undefined>
+
+/**
+ * The parts of an OpenTelemetry `Tracer` used to trace network calls,
+ * such that any compatible implementation may be passed, e.g. the one
+ * of `@opentelemetry/api`
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Attributes; startTime?: number },
+  ): Span
+}
+
+export interface Span {
+  spanContext(): { traceId: string; spanId: string; traceFlags: number }
+  setAttribute(key: string, value: string | number | boolean): unknown
+  addEvent(name: string, attributes?: Attributes): unknown
+  recordException(exception: Error): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  end(): void
+}
+
+export interface TracingOptions {
+  /**
+   * Propagate the trace to the server through the W3C `traceparent`
+   * header. Defaults to `true`
+   */
+  propagate?: boolean
+
+  /**
+   * Stop tracing once aborted
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * https://opentelemetry.io/docs/specs/otel/trace/api/#spankind
+ */
+const SPAN_KIND_CLIENT = 2
+
+/**
+ * https://opentelemetry.io/docs/specs/otel/trace/api/#set-status
+ */
+const STATUS_CODE_ERROR = 2
+
+/**
+ * Trace the network calls of an instance, and of any instance extending
+ * it, as client spans named by the method and `name` of the instance.
+ * Attributes follow the semantic conventions of HTTP clients.
+ *
+ * @example
+ * ```ts
+ * import { trace } from "@opentelemetry/api"
+ *
+ * traceLiaison(defaults, trace.getTracer("api"))
+ * ```
+ */
+export function traceLiaison(
+  instance: Liaison<any, any>,
+  tracer: Tracer,
+  options: TracingOptions = {},
+) {
+  const { propagate = true, signal } = options
+  const spans = new WeakMap<Request, Span>()
+
+  instance.on(
+    "start",
+    event => {
+      const span = tracer.startSpan(
+        [event.method, event.name].filter(Boolean).join(" "),
+        {
+          kind: SPAN_KIND_CLIENT,
+          startTime: event.startTime,
+          attributes: {
+            "http.request.method": event.method,
+            "url.full": event.url,
+            "liaison.name": event.name,
+          },
+        },
+      )
+
+      spans.set(event.request, span)
+
+      if (propagate)
+        event.request.headers.set("traceparent", toTraceparent(span))
+    },
+    { signal },
+  )
+
+  instance.on(
+    "retry",
+    event =>
+      spans.get(event.request)?.addEvent("retry", {
+        "http.request.resend_count": event.attempt,
+        "http.response.status_code": event.status,
+        "liaison.retry.delay": event.delay,
+      }),
+    { signal },
+  )
+
+  instance.on(
+    "settled",
+    event => {
+      const span = spans.get(event.request)
+      if (!span) return
+
+      for (const [key, value] of Object.entries(toAttributes(event)))
+        if (value !== undefined) span.setAttribute(key, value)
+
+      if (event.error) {
+        span.recordException(event.error)
+        span.setStatus({
+          code: STATUS_CODE_ERROR,
+          message: event.error.message,
+        })
+      }
+
+      span.end()
+      spans.delete(event.request)
+    },
+    { signal },
+  )
+}
+
+/**
+ * Attributes of a settled network call
+ */
+function toAttributes(event: CallEvent): Attributes {
+  return {
+    "http.response.status_code": event.status,
+    "http.response.body.size": event.size,
+    "http.request.resend_count":
+      event.attempt > 1 ? event.attempt - 1 : undefined,
+    "error.type": event.error?.name,
+  }
+}
+
+/**
+ * https://www.w3.org/TR/trace-context/#traceparent-header
+ */
+function toTraceparent(span: Span) {
+  const { traceId, spanId, traceFlags } = span.spanContext()
+  const flags = traceFlags.toString(16).padStart(2, "0")
+
+  return `00-${traceId}-${spanId}-${flags}`
+}
@@ -0,0 +1,89 @@
+import { coerceError } from "@amono/outil"
+import type * as Concrete from "./types/concrete"
+import { UnexpectedError } from "./errors"
+
+/**
+ * Params of the next page, or `null` once on the last page
+ */
+export async function nextPageParams(
+  paginate: Concrete.PaginateConfig,
+  context: Concrete.PageContext,
+): Promise<Record<string, unknown> | null> {
+  const params =
+    paginate.next === "link"
+      ? parseNextLink(context)
+      : await paginate.next(context)
+
+  return params || null
+}
+
+/**
+ * Items of a page as described by `PaginateConfig.items`
+ */
+export function pageItems(
+  paginate: Concrete.PaginateConfig,
+  page: unknown,
+): readonly unknown[] {
+  const items =
+    typeof paginate.items === "function"
+      ? paginate.items(page)
+      : paginate.items === undefined
+        ? page
+        : (page as Record<string, unknown> | null)?.[paginate.items]
+
+  if (!Array.isArray(items))
+    throw new TypeError(
+      `Expected the items of a page to be an array, received ${typeof items}`,
+    )
+
+  return items
+}
+
+/**
+ * Search params of the `rel="next"` url of a `Link` header, if any.
+ * https://datatracker.ietf.org/doc/html/rfc8288#section-3
+ */
+function parseNextLink(context: Concrete.PageContext) {
+  const header = context.response.headers.get("link") ?? ""
+
+  for (const [, url, attributes] of header.matchAll(LINK_VALUE)) {
+    const rel = attributes!.match(REL_ATTRIBUTE)?.[1]
+    if (!rel?.toLowerCase().split(/\s+/).includes("next")) continue
+
+    const params: Record<string, string | string[]> = {}
+    for (const [key, value] of resolveLink(url!, context).searchParams) {
+      const current = params[key]
+      params[key] = current === undefined ? value : [current, value].flat()
+    }
+
+    return params
+  }
+
+  return null
+}
+
+/**
+ * Resolve the url of a link against the url of the response, or that
+ * of the request if the response has none, e.g. when it is mocked
+ */
+function resolveLink(url: string, { request, response }: Concrete.PageContext) {
+  try {
+    return new URL(url, response.url || request.url)
+  } catch (error) {
+    throw new UnexpectedError(coerceError(error), {
+      request,
+      response,
+      stage: "response",
+    })
+  }
+}
+
+/**
+ * A single `<url>; attribute=value` of a `Link` header
+ */
+const LINK_VALUE = /<([^>]*)>([^,<]*)/g
+
+/**
+ * The `rel` attribute of a link, a space separated list of relations
+ */
+const REL_ATTRIBUTE = /;\s*rel\s*=\s*"?([^";]*)"?/i
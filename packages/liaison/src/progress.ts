@@ -0,0 +1,99 @@
+import type * as Concrete from "./types/concrete"
+
+/**
+ * Whether the runtime supports streaming request bodies. Feature
+ * detected by checking that the `duplex` option is read and that a
+ * stream body is not coerced to a string with a text content type.
+ * https://developer.chrome.com/docs/capabilities/web-apis/fetch-streaming-requests#feature_detection
+ */
+export const supportsRequestStreams = (() => {
+  let duplexAccessed = false
+
+  try {
+    const hasContentType = new Request("http://localhost", {
+      body: new ReadableStream(),
+      method: "POST",
+      get duplex() {
+        duplexAccessed = true
+        return "half"
+      },
+    } as RequestInit).headers.has("Content-Type")
+
+    return duplexAccessed && !hasContentType
+  } catch {
+    return false
+  }
+})()
+
+/**
+ * Create a stream that passes chunks through as is while
+ * reporting the accumulated number of bytes
+ */
+function createCounter(
+  direction: Concrete.Progress["direction"],
+  total: number | null,
+  onProgress: Concrete.ProgressCallback,
+) {
+  let loaded = 0
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength
+      controller.enqueue(chunk)
+      onProgress({ direction, loaded, total })
+    },
+  })
+}
+
+/**
+ * Wrap the body of a response such that reading it reports download
+ * progress. The total is taken from the `Content-Length` header, unless
+ * the body is encoded, in which case said header is not the decoded size.
+ */
+export function trackDownload(
+  response: Response,
+  onProgress: Concrete.ProgressCallback,
+) {
+  if (!response.body) return response
+
+  const length = response.headers.get("content-length")
+  const total =
+    length && !response.headers.has("content-encoding") ? Number(length) : null
+
+  const tracked = new Response(
+    response.body.pipeThrough(createCounter("download", total, onProgress)),
+    response,
+  )
+
+  /** These are not part of `ResponseInit` and would otherwise be lost */
+  return Object.defineProperties(tracked, {
+    url: { value: response.url },
+    redirected: { value: response.redirected },
+    type: { value: response.type },
+  })
+}
+
+/**
+ * Replace the body of a request with a stream that reports upload
+ * progress, as opted into through `streamUpload`. Only possible if the
+ * runtime supports streaming request bodies, otherwise the request is
+ * returned as is and no upload progress is reported.
+ *
+ * @note Chromium only supports streaming request bodies over HTTP/2 or later
+ */
+export async function trackUpload(
+  request: Request,
+  onProgress: Concrete.ProgressCallback,
+) {
+  if (!request.body || !supportsRequestStreams) return request
+
+  /** A blob is read lazily, but is needed to know the total size */
+  const blob = await request.blob()
+
+  return new Request(request, {
+    body: blob
+      .stream()
+      .pipeThrough(createCounter("upload", blob.size, onProgress)),
+    duplex: "half",
+  } as RequestInit)
+}
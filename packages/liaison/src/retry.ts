@@ -0,0 +1,134 @@
+import { coerceError } from "@amono/outil"
+import type * as Concrete from "./types/concrete"
+import { wait } from "./signal"
+
+/**
+ * Status codes that usually indicate a transient failure
+ */
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504]
+
+/**
+ * Methods that, per spec, can be repeated without additional side effects
+ */
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"]
+
+/**
+ * Fill in defaults for a `retry` config field. A missing field
+ * resolves to a policy of a single attempt, i.e. no retries.
+ */
+export function normalizeRetry(
+  retry: Concrete.Config["retry"],
+): Required<Concrete.RetryConfig> {
+  const config = typeof retry === "number" ? { attempts: retry } : retry
+
+  return {
+    attempts: 1,
+    delay: 300,
+    factor: 2,
+    maxDelay: 30_000,
+    jitter: true,
+    retryAfter: true,
+    when: isRetryable,
+    ...config,
+  }
+}
+
+/**
+ * Default predicate of `RetryConfig.when`. Retries network errors and
+ * transient status codes, but only for idempotent methods as other
+ * methods may have had side effects despite failing.
+ */
+export function isRetryable(context: Concrete.RetryContext) {
+  if (!IDEMPOTENT_METHODS.includes(context.request.method)) return false
+  if (context.response) return RETRYABLE_STATUSES.includes(context.status)
+
+  /** Native fetch rejects with a `TypeError` on network failure */
+  return context.error instanceof TypeError
+}
+
+/**
+ * Transport used unless the config says otherwise, i.e. native `fetch`.
+ * Looked up on every call such that a patched global is respected.
+ */
+export const defaultTransport: Concrete.Transport = request => fetch(request)
+
+/**
+ * Run the transport, native fetch by default, retrying according to the
+ * retry policy. The `prepare` callback is run before every attempt to
+ * form the request; this allows the request interceptors to run anew,
+ * e.g. so that auth is never stale.
+ * Should it give a `Response` instead, said response is used as is.
+ *
+ * Resolves with the last response, even if it is not successful, and
+ * rejects with the last network error once attempts are exhausted.
+ */
+export async function retryFetch(
+  policy: Required<Concrete.RetryConfig>,
+  prepare: (attempt: number) => Promise<Request | Response>,
+  transport: Concrete.Transport = defaultTransport,
+  onRetry?: (context: Concrete.RetryContext, delay: number) => void,
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    const request = await prepare(attempt)
+    if (request instanceof Response) return request
+
+    const context: Concrete.RetryContext = await transport(request).then(
+      response => ({ attempt, request, response, status: response.status }),
+      error => ({ attempt, request, error: coerceError(error) }),
+    )
+
+    const retry =
+      attempt < policy.attempts &&
+      !context.response?.ok &&
+      (await policy.when(context))
+
+    if (!retry) {
+      if (context.error) throw context.error
+      return context.response
+    }
+
+    /** Free up the connection of the discarded response */
+    await context.response?.body?.cancel()
+
+    const delay = getRetryDelay(policy, context)
+    onRetry?.(context, delay)
+    await wait(delay, request.signal)
+  }
+}
+
+/**
+ * Milliseconds to wait before the next attempt
+ */
+function getRetryDelay(
+  policy: Required<Concrete.RetryConfig>,
+  context: Concrete.RetryContext,
+) {
+  const retryAfter = policy.retryAfter
+    ? parseRetryAfter(context.response?.headers.get("retry-after"))
+    : null
+
+  if (retryAfter !== null) return Math.min(retryAfter, policy.maxDelay)
+
+  const delay = Math.min(
+    policy.delay * policy.factor ** (context.attempt - 1),
+    policy.maxDelay,
+  )
+
+  return policy.jitter ? delay / 2 + (Math.random() * delay) / 2 : delay
+}
+
+/**
+ * `Retry-After` is either a number of seconds or an HTTP date
+ * https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
+ */
+export function parseRetryAfter(header: string | null | undefined) {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  if (Number.isNaN(date)) return null
+
+  return Math.max(0, date - Date.now())
+}
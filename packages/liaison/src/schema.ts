@@ -0,0 +1,183 @@
+import * as zod from "zod"
+import { coerceError } from "@amono/outil"
+import type * as Concrete from "./types/concrete"
+import type * as Generics from "./types/generics"
+import type { StandardSchemaV1 } from "./types/standard"
+
+export type Issue = StandardSchemaV1.Issue
+
+/**
+ * Thrown when a value fails to validate, regardless of the validator
+ */
+export class SchemaError extends Error {
+  issues: Issue[]
+
+  constructor(issues: Issue[], options?: ErrorOptions) {
+    super(issues.map(e => e.message).join("\n"), options)
+    this.name = "SchemaError"
+    this.issues = issues
+  }
+}
+
+/**
+ * Validates a value by two schemas, as formed when an instance
+ * intersects its schema with the inherited one, see `Config.merge`.
+ * Outputs that are both objects are merged, otherwise the output
+ * of the latter schema is used.
+ */
+export class SchemaIntersection implements StandardSchemaV1 {
+  readonly left: Concrete.Schema
+  readonly right: Concrete.Schema
+
+  constructor(left: Concrete.Schema, right: Concrete.Schema) {
+    this.left = left
+    this.right = right
+  }
+
+  get ["~standard"](): StandardSchemaV1.Props {
+    return {
+      version: 1,
+      vendor: "liaison",
+      validate: value => intersectionAdapter.validate(this, value),
+    }
+  }
+}
+
+/**
+ * Validates a value by a schema of a given validator library,
+ * prefixing the messages of any issues with the given label
+ * to better identify what schema the issue is associated with.
+ */
+interface SchemaAdapter<S = Concrete.Schema> {
+  accepts(schema: Concrete.Schema): schema is S & Concrete.Schema
+  validate(
+    schema: S,
+    value: unknown,
+    label?: string,
+  ): Promise<StandardSchemaV1.Result<unknown>>
+}
+
+const intersectionAdapter: SchemaAdapter<SchemaIntersection> = {
+  accepts: (schema): schema is SchemaIntersection =>
+    schema instanceof SchemaIntersection,
+
+  async validate(schema, value, label) {
+    const [left, right] = await Promise.all([
+      validate(schema.left, value, label),
+      validate(schema.right, value, label),
+    ])
+
+    if (left.issues || right.issues)
+      return { issues: [...(left.issues ?? []), ...(right.issues ?? [])] }
+
+    return {
+      value:
+        isObject(left.value) && isObject(right.value)
+          ? { ...left.value, ...right.value }
+          : right.value,
+    }
+  },
+}
+
+/**
+ * Any validator implementing https://github.com/standard-schema/standard-schema
+ */
+const standardAdapter: SchemaAdapter<StandardSchemaV1> = {
+  accepts: isStandardSchema,
+
+  async validate(schema, value, label) {
+    const result = await schema["~standard"].validate(value)
+    if (!result.issues) return result
+
+    return {
+      issues: result.issues.map(issue => ({
+        ...issue,
+        message: withLabel(issue.message, label),
+      })),
+    }
+  },
+}
+
+/**
+ * Zod prior to implementing Standard Schema, which is `3.24`
+ */
+const zodAdapter: SchemaAdapter<zod.ZodTypeAny> = {
+  accepts: (schema): schema is zod.ZodTypeAny => schema instanceof zod.ZodType,
+
+  async validate(schema, value, label) {
+    const result = await schema.safeParseAsync(value, {
+      errorMap: ({}, ctx) => ({
+        message: withLabel(ctx.defaultError, label),
+      }),
+    })
+
+    return result.success
+      ? { value: result.data }
+      : { issues: result.error.issues }
+  },
+}
+
+const ADAPTERS: SchemaAdapter<any>[] = [
+  intersectionAdapter,
+  standardAdapter,
+  zodAdapter,
+]
+
+/**
+ * Validate a value by any supported schema, resolving with the output
+ * of the schema. Rejects with a `SchemaError`, also if the schema itself
+ * throws, e.g. in a transform.
+ */
+export async function parseSchema<S extends Concrete.Schema>(
+  schema: S,
+  value: unknown,
+  label: string,
+): Promise<Generics.FinalSchemaType<S>> {
+  const result = await validate(schema, value, label).catch(error => {
+    throw new SchemaError([{ message: coerceError(error).message }], {
+      cause: error,
+    })
+  })
+
+  if (result.issues) throw new SchemaError([...result.issues])
+  return result.value as Generics.FinalSchemaType<S>
+}
+
+/**
+ * Resolve the schema of a config field, which is either a
+ * schema as is, or a callback forming one given Zod
+ */
+export function resolveSchema(
+  schema: Concrete.SchemaConfig | Concrete.Schema,
+): Concrete.Schema {
+  return typeof schema === "function" && !isStandardSchema(schema)
+    ? schema(zod)
+    : schema
+}
+
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    "~standard" in value
+  )
+}
+
+/**
+ * Validate a value by the adapter of the validator of the schema
+ */
+function validate(schema: Concrete.Schema, value: unknown, label?: string) {
+  const adapter = ADAPTERS.find(e => e.accepts(schema))
+  if (!adapter)
+    throw new TypeError(`${label ?? "The"} schema is not a supported schema`)
+
+  return adapter.validate(schema, value, label)
+}
+
+function withLabel(message: string, label: string | undefined) {
+  return label === undefined ? message : `${label} schema | ${message}`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,81 @@
+import type * as Concrete from "./types/concrete"
+
+/**
+ * Serialize a parsed body according to the `bodyFormat` of the config
+ * and set the matching `Content-Type` header. An explicitly set
+ * `Content-Type` is respected, except for `form` where the runtime
+ * has to set it to include the multipart boundary.
+ */
+export function serializeBody(
+  format: Concrete.BodyFormat = "raw",
+  body: unknown,
+  headersInit?: HeadersInit,
+): { body: BodyInit | null | undefined; headers?: HeadersInit } {
+  if (format === "raw" || body === undefined)
+    return { body: body as BodyInit, headers: headersInit }
+
+  const headers = new Headers(headersInit)
+
+  switch (format) {
+    case "json": {
+      if (!headers.has("content-type"))
+        headers.set("content-type", "application/json")
+
+      return { body: JSON.stringify(body), headers }
+    }
+
+    case "urlencoded": {
+      if (!headers.has("content-type"))
+        headers.set("content-type", "application/x-www-form-urlencoded")
+
+      const params = new URLSearchParams()
+
+      for (const [key, value] of flatten(body)) {
+        if (value instanceof Blob)
+          throw new Error(
+            `Body field "${key}" is a file, which cannot be URL-encoded. Use the "form" body format instead`,
+          )
+
+        params.append(key, value)
+      }
+
+      return { body: params, headers }
+    }
+
+    case "form": {
+      headers.delete("content-type")
+
+      const data = new FormData()
+      for (const [key, value] of flatten(body)) data.append(key, value)
+
+      return { body: data, headers }
+    }
+  }
+}
+
+/**
+ * Flatten a value into key-value entries using bracket notation for
+ * nested fields, e.g. `{ user: { tags: ["a"] } }` becomes `user[tags][0]=a`.
+ * Files and blobs are kept as is, `null` and `undefined` are omitted.
+ */
+function flatten(
+  value: unknown,
+  key = "",
+): Array<[key: string, value: string | Blob]> {
+  if (value === null || value === undefined) return []
+  if (value instanceof Blob) return [[key, value]]
+  if (value instanceof Date) return [[key, value.toISOString()]]
+
+  if (typeof value === "object") {
+    if (!key && Array.isArray(value))
+      throw new Error("Body must be an object to be serialized as fields")
+
+    return Object.entries(value).flatMap(([k, v]) =>
+      flatten(v, key ? `${key}[${k}]` : k),
+    )
+  }
+
+  if (!key) throw new Error("Body must be an object to be serialized as fields")
+
+  return [[key, String(value)]]
+}
@@ -0,0 +1,60 @@
+/**
+ * Create a signal that aborts after given milliseconds. As opposed
+ * to `AbortSignal.timeout` the timer can be cleared once the
+ * network call has settled.
+ */
+export function createTimeout(ms: number | undefined) {
+  if (ms === undefined) return null
+
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new DOMException(`Timed out after ${ms}ms`, "TimeoutError"),
+      ),
+    ms,
+  )
+
+  return {
+    ms,
+    signal: controller.signal,
+    clear: () => clearTimeout(timer),
+  }
+}
+
+export type Timeout = NonNullable<ReturnType<typeof createTimeout>>
+
+/**
+ * Combine any number of signals into a single signal that aborts as
+ * soon as any of them does, with the reason of said signal.
+ */
+export function mergeSignals(
+  signals: Array<AbortSignal | null | undefined>,
+): AbortSignal | undefined {
+  const defined = signals.filter(e => e instanceof AbortSignal)
+
+  if (defined.length < 2) return defined[0]
+  return AbortSignal.any(defined)
+}
+
+/**
+ * Resolve after given milliseconds, or reject
+ * early with the abort reason of the signal
+ */
+export function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted()
+
+    const abort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", abort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener("abort", abort, { once: true })
+  })
+}
@@ -0,0 +1,116 @@
+/**
+ * A single message of a Server-Sent Events stream
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+export interface ServerSentEvent {
+  event: string
+  data: string
+  id?: string
+  retry?: number
+}
+
+/**
+ * Matches the content type of a Server-Sent Events stream
+ */
+const EVENT_STREAM_TYPE = /^text\/event-stream\b/i
+
+/**
+ * Determine the format of a streamed response by its content type,
+ * anything other than an event stream is read as newline delimited JSON
+ */
+export function detectStreamFormat(response: Response) {
+  const type = response.headers.get("content-type") ?? ""
+  return EVENT_STREAM_TYPE.test(type) ? "sse" : "ndjson"
+}
+
+/**
+ * Decode a body stream and split it into lines, regardless
+ * of whether lines are terminated by `\r\n`, `\n` or `\r`
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += value
+      const lines = buffer.split(/\r\n|\n|\r(?!$)/)
+      buffer = lines.pop() ?? ""
+
+      yield* lines
+    }
+
+    if (buffer) yield* buffer.split(/\r\n|\n|\r/)
+  } finally {
+    /** Cancels the body if the consumer stopped iterating early */
+    await reader.cancel().catch(() => {})
+  }
+}
+
+/**
+ * Parse lines of a Server-Sent Events stream into messages. Messages
+ * without any data are not dispatched, but still update the `id`.
+ */
+export async function* parseEventStream(
+  lines: AsyncIterable<string>,
+): AsyncGenerator<ServerSentEvent> {
+  let data: string[] = []
+  let event = ""
+  let id: string | undefined
+  let retry: number | undefined
+
+  for await (const line of lines) {
+    if (line === "") {
+      if (data.length)
+        yield { event: event || "message", data: data.join("\n"), id, retry }
+
+      data = []
+      event = ""
+      retry = undefined
+      continue
+    }
+
+    if (line.startsWith(":")) continue
+
+    const index = line.indexOf(":")
+    const field = index === -1 ? line : line.slice(0, index)
+    const value = index === -1 ? "" : line.slice(index + 1).replace(/^ /, "")
+
+    switch (field) {
+      case "data":
+        data.push(value)
+        break
+      case "event":
+        event = value
+        break
+      case "id":
+        if (!value.includes("\0")) id = value
+        break
+      case "retry":
+        if (/^\d+$/.test(value)) retry = Number(value)
+        break
+    }
+  }
+}
+
+/**
+ * Parse lines of newline delimited JSON, skipping empty lines
+ */
+export async function* parseNdjson(lines: AsyncIterable<string>) {
+  for await (const line of lines) if (line.trim()) yield JSON.parse(line)
+}
+
+/**
+ * Data of Server-Sent Events is parsed as JSON when possible,
+ * otherwise it is kept as is, e.g. for a `[DONE]` sentinel
+ */
+export function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
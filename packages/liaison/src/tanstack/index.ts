@@ -0,0 +1,131 @@
+import {
+  liaisonKey,
+  type AnyLiaison,
+  type CallConfig,
+  type Data,
+  type LiaisonKey,
+} from "../key"
+import { mergeSignals } from "../signal"
+
+/**
+ * The parts of the context TanStack Query passes to a `queryFn`
+ */
+interface QueryFunctionContext {
+  signal: AbortSignal
+}
+
+/**
+ * The parts of a `QueryClient` used by `invalidateLiaison`
+ */
+interface QueryClient {
+  invalidateQueries(filters: LiaisonQueryFilters): Promise<void>
+}
+
+export interface LiaisonQueryOptions<T extends AnyLiaison> {
+  queryKey: LiaisonKey
+  queryFn: (context: QueryFunctionContext) => Promise<Data<T>>
+}
+
+export interface LiaisonMutationOptions<T extends AnyLiaison> {
+  mutationKey: string[]
+  mutationFn: (config: CallConfig<T>) => Promise<Data<T>>
+}
+
+export interface LiaisonQueryFilters {
+  queryKey: string[] | LiaisonKey
+  exact?: boolean
+}
+
+/**
+ * Options of `useQuery`, `prefetchQuery` etc. for a call of an instance.
+ * The key is formed by `liaisonKey`, and the request is aborted along
+ * with the query. Spread additional options as needed.
+ *
+ * @example
+ * ```tsx
+ * const user = useQuery({
+ *   ...liaisonQueryOptions(getUser, { path: { id } }),
+ *   staleTime: 60_000,
+ * })
+ * ```
+ */
+export function liaisonQueryOptions<T extends AnyLiaison>(
+  instance: T,
+  ...[config]: Parameters<T["go"]>
+): LiaisonQueryOptions<T> {
+  return {
+    queryKey: liaisonKey(instance, config as object | undefined),
+    queryFn: ({ signal }) =>
+      instance.go(withSignal(config, signal) as never) as Promise<Data<T>>,
+  }
+}
+
+/**
+ * Options of `useMutation` for an instance, whose variables are the
+ * call config. The mutation key is that of the instance alone.
+ *
+ * @example
+ * ```tsx
+ * const rename = useMutation(liaisonMutationOptions(updateUser))
+ * rename.mutate({ path: { id }, body: { name } })
+ * ```
+ */
+export function liaisonMutationOptions<T extends AnyLiaison>(
+  instance: T,
+): LiaisonMutationOptions<T> {
+  return {
+    mutationKey: liaisonKey(instance),
+    mutationFn: config => instance.go(config as never) as Promise<Data<T>>,
+  }
+}
+
+/**
+ * Filters matching every query of an instance, and of any instance
+ * extending it, or only the query of a given call config. Keys are
+ * formed by the names of the chain, so name the instances to target.
+ *
+ * @example
+ * ```ts
+ * // Everything under `defaults`
+ * queryClient.invalidateQueries(liaisonQueryFilters(defaults))
+ *
+ * // Only the user with given id
+ * queryClient.removeQueries(liaisonQueryFilters(getUser, { path: { id } }))
+ * ```
+ */
+export function liaisonQueryFilters<T extends AnyLiaison>(
+  instance: T,
+  ...[config]: [config?: CallConfig<T>]
+): LiaisonQueryFilters {
+  return config === undefined
+    ? { queryKey: liaisonKey(instance) }
+    : { queryKey: liaisonKey(instance, config as object), exact: true }
+}
+
+/**
+ * Invalidate every query of an instance, and of any instance extending
+ * it, or only the query of a given call config. See `liaisonQueryFilters`
+ *
+ * @example
+ * ```ts
+ * await invalidateLiaison(queryClient, defaults)
+ * ```
+ */
+export function invalidateLiaison<T extends AnyLiaison>(
+  client: QueryClient,
+  instance: T,
+  ...[config]: [config?: CallConfig<T>]
+) {
+  return client.invalidateQueries(liaisonQueryFilters(instance, config))
+}
+
+/**
+ * Merge the signal of the query with that of the call config, if any
+ */
+function withSignal(config: unknown, signal: AbortSignal) {
+  const { signal: own, ...rest } = (config ?? {}) as {
+    signal?: AbortSignal | null
+  }
+
+  return { ...rest, signal: mergeSignals([own, signal]) }
+}
@@ -1,7 +1,9 @@
 import * as Helpers from "@amono/outil/types"
 import type Zod from "zod"
+import type { StandardSchemaV1 } from "./standard"
+import type { RateLimiter } from "../limiter"
 
-export interface Config extends Omit<RequestInit, "method" | "body"> {
+export interface Config extends Omit<RequestInit, "method" | "body" | "cache"> {
   /**
    * Provide a name for the instance to e.g. better identify it on
    * intellisense hover. Useful when inspecting a larger chain
@@ -12,25 +14,64 @@ export interface Config extends Omit<RequestInit, "method" | "body"> {
   name?: string
 
   /**
-   * Function returning a Zod-schema. Determines type of `body` at call time.
+   * Function returning a Zod-schema, or a Standard Schema as is.
+   * Determines type of `body` at call time.
    * Incitivices better typing, autocomplete and not sending unsanitized
    * data across the wire and not spam endpoints w/ invalid payloads.
    */
-  body?: CreateSchema
+  body?: SchemaConfig
 
   /**
-   * Function returning a Zod-schema. Determines type of `body` at call time.
+   * How the parsed `body` is serialized before it is sent. Sets the
+   * matching `Content-Type` header unless one is already set;
+   * - `json` serializes with `JSON.stringify`
+   * - `form` flattens nested fields and files into `FormData` (multipart)
+   * - `urlencoded` flattens nested fields into `URLSearchParams`
+   * - `raw` passes the body as is to fetch, which is the default
+   *
+   * Nested fields are flattened using bracket notation; `user[tags][0]`
+   */
+  bodyFormat?: BodyFormat
+
+  /**
+   * Function returning a Zod-schema, or a Standard Schema as is.
+   * Determines type of `body` at call time.
    * Incitivices better typing, autocomplete and not sending unsanitized
    * data across the wire and not spam endpoints w/ invalid payloads.
    */
-  params?: CreateSchema
+  params?: SchemaConfig
+
+  /**
+   * Function returning a Zod-schema, or a Standard Schema as is.
+   * Determines type of `path` at call time.
+   * Values are substituted into the `:name` or `{name}` placeholders of
+   * the `url`. If omitted, the placeholders found in a literal `url`
+   * are still required at call time as plain string or number segments.
+   */
+  path?: SchemaConfig
 
   /**
-   * Function returning a Zod-schema. Validates data and determines retrun type of the HTTP call.
+   * Function returning a Zod-schema, or a Standard Schema as is.
+   * Validates data and determines retrun type of the HTTP call.
    * Ensures that there won't be schema drifts where successful network call results
    * in mismatched runtime data and static types creating hard to debug uncaught errors.
    */
-  response?: CreateSchema
+  response?: SchemaConfig
+
+  /**
+   * Functions returning Zod-schemas, or Standard Schemas as is, keyed by
+   * status code. A response with a matching non successful status has
+   * its body parsed by said schema, the result being the typed `body`
+   * of the `HttpError` it fails with.
+   *
+   * @example
+   * ```ts
+   * errors: {
+   *   409: z => z.object({ code: z.literal("taken") }),
+   * }
+   * ```
+   */
+  errors?: ErrorSchemas
 
   /**
    * Request url that will be passed to Fetch' first `input` argument, but
@@ -38,9 +79,39 @@ export interface Config extends Omit<RequestInit, "method" | "body"> {
    *
    * The reason for this is so that the url is always easily readable
    * on Intellisense-hover and otherwise easy referencing elsewhere
+   *
+   * Relative urls are resolved against `baseUrl`, if any. The resolved
+   * `config.url` is typed as the literal joined url.
    */
   url?: string
 
+  /**
+   * Url that `url` is resolved against, unless `url` is absolute. A
+   * relative base url is joined with the one inherited through `extends`.
+   * Slashes in between are normalized.
+   *
+   * @example
+   * ```ts
+   * baseUrl: "https://api.example.com/v1"
+   * ```
+   */
+  baseUrl?: string
+
+  /**
+   * Named base urls of different environments, any of which the instance
+   * can switch to at runtime through `setProfile`, in place of its own
+   * `baseUrl`. Instances extending it follow along.
+   *
+   * @example
+   * ```ts
+   * profiles: {
+   *   local: "http://localhost:3000",
+   *   staging: "https://staging.example.com",
+   * }
+   * ```
+   */
+  profiles?: Record<string, string>
+
   /**
    * A string to set request's method
    *
@@ -57,39 +128,423 @@ export interface Config extends Omit<RequestInit, "method" | "body"> {
    * or just use of the `body` stream directly
    */
   handleResponse?: (response: Response) => Promise<unknown>
+
+  /**
+   * How the response body is unwrapped before it is validated by the
+   * `response` schema. If omitted, it is determined by the `Content-Type`
+   * header; JSON (including `+json` vendor types), NDJSON or text.
+   *
+   * `none` discards the body, e.g. for `204` responses or `HEAD` requests.
+   * Not used if `handleResponse` is defined.
+   */
+  responseFormat?: ResponseFormat
+
+  /**
+   * Format of a response streamed through `stream()`. If omitted, it is
+   * determined by the `Content-Type` header; `text/event-stream` is read
+   * as Server-Sent Events, anything else as newline delimited JSON.
+   */
+  streamFormat?: StreamFormat
+
+  /**
+   * Either the native fetch cache mode, or a config for `Liaison`'s own
+   * response cache. The latter keys entries by method, url after any
+   * params are appended and chosen headers, see `CacheConfig`.
+   *
+   * Fresh entries are served without hitting the network, stale entries
+   * are revalidated using `If-None-Match`/`If-Modified-Since`.
+   */
+  cache?: RequestCache | CacheConfig
+
+  /**
+   * Maximum number of times a Server-Sent Events stream reconnects
+   * after failing on the network. Defaults to `3`
+   */
+  reconnect?: number
+
+  /**
+   * Share a single network call between identical calls that are in
+   * flight at the same time, i.e. whose request has the same method,
+   * url and serialized body. Every caller settles with the very same
+   * result or error, and response interceptors only run once.
+   *
+   * Aborting one caller does not abort the network call for the others.
+   * Only applies to `go` and `safeGo`, not to `stream`.
+   */
+  dedupe?: boolean
+
+  /**
+   * Function that sends the final request across the wire, defaults to
+   * native `fetch`. Like any other field it is inherited by extending
+   * instances, e.g. to swap in a `MockTransport` in tests.
+   */
+  fetch?: Transport
+
+  /**
+   * Caps the number of concurrent requests and requests per interval,
+   * queueing any excess. Every instance given the same limiter, e.g.
+   * by extending an instance with one, shares its limits.
+   *
+   * Every attempt of a retried request counts as a request of its own.
+   * Queued requests are ordered by the native `priority`, if so configured.
+   */
+  limiter?: RateLimiter
+
+  /**
+   * Retry failed network calls. Either the maximum number of attempts,
+   * including the first, or a more granular retry policy.
+   *
+   * By default only network failures and typically transient status
+   * codes of idempotent requests are retried, see `RetryConfig.when`.
+   */
+  retry?: number | RetryConfig
+
+  /**
+   * Milliseconds a network call may take in its entirety, including any
+   * retries and the reading of the response body, before it is aborted
+   * with a `TimeoutError`.
+   */
+  timeout?: number
+
+  /**
+   * How the fields of this instance are merged with the ones it
+   * inherits through `extends`, by default fields are overridden
+   * except for `headers` which are merged case-insensitively.
+   * Only applies to this instance, not to any instance extending it.
+   *
+   * @example
+   * ```ts
+   * merge: {
+   *   params: "intersect",
+   *   retry: "remove",
+   * }
+   * ```
+   */
+  merge?: MergeStrategies
+
+  /**
+   * How to get the params of the next page of a paginated list endpoint,
+   * enabling `pages()` and `items()`.
+   *
+   * @example
+   * ```ts
+   * paginate: {
+   *   next: ({ page }) => page.nextCursor && { cursor: page.nextCursor },
+   *   items: "data",
+   * }
+   * ```
+   */
+  paginate?: PaginateConfig
+}
+
+export interface PaginateConfig {
+  /**
+   * Params of the next page given the current one, merged with the params
+   * of the current page. Nothing, e.g. `null`, once on the last page.
+   *
+   * `link` uses the search params of the `rel="next"` url of a `Link`
+   * header, the `params` schema has to accept them as strings.
+   */
+  next:
+    | "link"
+    | ((
+        context: PageContext,
+      ) =>
+        | Record<string, unknown>
+        | null
+        | undefined
+        | Promise<Record<string, unknown> | null | undefined>)
+
+  /**
+   * Items of a page yielded by `items()`, either the key of the
+   * page that holds them or a function returning them. Defaults
+   * to the page itself, which then has to be an array.
+   */
+  items?: string | ((page: any) => readonly unknown[])
+}
+
+/**
+ * Options of `pages()` and `items()`
+ */
+export interface PageOptions {
+  /**
+   * Maximum number of pages to request
+   */
+  maxPages?: number
+
+  /**
+   * Stop paginating once aborted, aborting any page in flight
+   */
+  signal?: AbortSignal
 }
 
+/**
+ * Context of the current page passed to `PaginateConfig.next`
+ */
+export type PageContext = {
+  /**
+   * The current page as validated by the `response` schema
+   */
+  page: any
+  response: Response
+
+  /**
+   * The request of the current page as it was sent
+   */
+  request: Request
+
+  /**
+   * Params the current page was requested with
+   */
+  params: any
+
+  /**
+   * Index of the current page, starting at `0`
+   */
+  index: number
+}
+
+/**
+ * - `override` replaces the inherited value, the default
+ * - `merge` merges inherited `headers` case-insensitively, the default for said field
+ * - `join` joins a relative `baseUrl` with the inherited one, the default for said field
+ * - `intersect` validates by both the inherited and the own schema
+ * - `remove` drops the inherited value, leaving the own value if any
+ */
+export type MergeStrategy =
+  | "override"
+  | "merge"
+  | "join"
+  | "intersect"
+  | "remove"
+
+/**
+ * Strategies available per field, see `Config.merge`
+ */
+export type MergeStrategies = {
+  [K in Exclude<keyof Config, "merge" | "profiles">]?:
+    | "override"
+    | "remove"
+    | (K extends "headers" ? "merge" : never)
+    | (K extends "baseUrl" ? "join" : never)
+    | (K extends "params" | "path" ? "intersect" : never)
+}
+
+/**
+ * Policy for retrying failed network calls. Delays grow exponentially
+ * between attempts; `delay * factor ** (attempt - 1)`, capped by `maxDelay`.
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first one
+   */
+  attempts: number
+
+  /**
+   * Milliseconds to wait before the first retry. Defaults to `300`
+   */
+  delay?: number
+
+  /**
+   * Multiplier applied to the delay for every subsequent retry. Defaults to `2`
+   */
+  factor?: number
+
+  /**
+   * Upper bound of milliseconds to wait between attempts. Defaults to `30_000`
+   */
+  maxDelay?: number
+
+  /**
+   * Randomise the delay between half and the whole of its computed
+   * value to avoid many clients retrying in lockstep. Defaults to `true`
+   */
+  jitter?: boolean
+
+  /**
+   * Wait for as long as a `Retry-After` response header says, if
+   * present, instead of the computed delay. Still capped by `maxDelay`.
+   * Defaults to `true`
+   */
+  retryAfter?: boolean
+
+  /**
+   * Determine whether a failed attempt should be retried. Either
+   * a `response` with a non successful status or a network `error`
+   * is present in the context.
+   *
+   * Defaults to retrying network errors and the status codes
+   * 408, 425, 429, 500, 502, 503 and 504 for idempotent methods.
+   */
+  when?: (context: RetryContext) => boolean | Promise<boolean>
+}
+
+/**
+ * Context of a failed attempt passed to `RetryConfig.when`
+ */
+export type RetryContext = {
+  attempt: number
+  request: Request
+} & (
+  | { response: Response; status: number; error?: undefined }
+  | { response?: undefined; status?: undefined; error: Error }
+)
+
 /**
  * All fields in the `Config` which may hold Zod schemas.
  *
  * @note Uses pick to enforce typed relationship between union and
  * config, such that anyt possible future refactorings are safer
  */
-export type SchemaKeys = keyof Pick<Config, "body" | "response" | "params">
+export type SchemaKeys = keyof Pick<
+  Config,
+  "body" | "response" | "params" | "path"
+>
 
 /**
  * Mirrors `Generics.NormalizedConfig` but as a concrete
  * type, has no awareness of Generic type data
  */
 export interface NormalizedConfig
-  extends Omit<Config, keyof Pick<Config, SchemaKeys>> {
+  extends Omit<Config, keyof Pick<Config, SchemaKeys | "errors">> {
   body: Schema
   params: Schema
+  path: Schema
   response: Schema
+  errors?: Record<number, Schema>
 }
 
 /**
- * Base Zod schema type, serves two purposes;
+ * Base schema type, serves two purposes;
  * - The widest possible base schema type that generics may extend
- * - A fallback for any missing schemas so that any zod inferring defaults to "unknown"
+ * - A fallback for any missing schemas so that any inferring defaults to "unknown"
+ *
+ * Zod schemas are supported as is, any other validator through
+ * https://github.com/standard-schema/standard-schema
+ */
+export type Schema = Zod.ZodType<unknown> | StandardSchemaV1
+
+/**
+ * Serialization modes of the `body`, see `Config.bodyFormat`
+ */
+export type BodyFormat = "json" | "form" | "urlencoded" | "raw"
+
+/**
+ * Unwrapped value of the response body for each `responseFormat`
+ */
+export interface ResponseFormats {
+  json: unknown
+  text: string
+  blob: Blob
+  arrayBuffer: ArrayBuffer
+  formData: FormData
+  ndjson: unknown[]
+  none: undefined
+}
+
+/**
+ * Unwrapping modes of the response body, see `Config.responseFormat`
+ */
+export type ResponseFormat = keyof ResponseFormats
+
+/**
+ * Progress of sending the request body or receiving the response body.
+ * The `total` is `null` if the size of the body is not known up front.
+ */
+export interface Progress {
+  direction: "upload" | "download"
+  loaded: number
+  total: number | null
+}
+
+export type ProgressCallback = (progress: Progress) => void
+
+/**
+ * Config of `Liaison`'s response cache, only `GET` and `HEAD` requests
+ * are cached. Responses with `Cache-Control: no-store` are never stored.
+ */
+export interface CacheConfig {
+  /**
+   * Milliseconds a cached response is considered fresh and served without
+   * hitting the network. Defaults to `0`, i.e. always revalidate.
+   */
+  ttl?: number
+
+  /**
+   * Milliseconds after going stale during which a cached response is still
+   * served as is, while being revalidated in the background. Defaults to `0`
+   */
+  staleWhileRevalidate?: number
+
+  /**
+   * Names of request headers that, in addition to method, url and
+   * `Authorization`, distinguish cache entries, e.g. `Accept-Language`
+   */
+  vary?: string[]
+
+  /**
+   * Storage adapter, defaults to an in-memory store shared by all instances
+   */
+  store?: CacheStore
+}
+
+/**
+ * Storage adapter of the response cache, e.g. backed by memory,
+ * IndexedDB or the file system. May be synchronous or asynchronous.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): void | Promise<void>
+  delete(key: string): void | Promise<void>
+}
+
+/**
+ * A serialized response as kept by a `CacheStore`
+ */
+export interface CacheEntry {
+  status: number
+  statusText: string
+  headers: Array<[name: string, value: string]>
+  body: ArrayBuffer
+  etag?: string
+  lastModified?: string
+  /**
+   * Timestamp of when the entry was stored or last revalidated
+   */
+  storedAt: number
+}
+
+/**
+ * Sends a request and resolves with its response, see `Config.fetch`
+ */
+export type Transport = (request: Request) => Promise<Response>
+
+/**
+ * Formats of a streamed response, see `Config.streamFormat`
  */
-export type Schema = Zod.ZodType<unknown>
+export type StreamFormat = "sse" | "ndjson"
+
+/**
+ * Schemas of documented error responses keyed by status code
+ */
+export type ErrorSchemas = { [status: number]: SchemaConfig }
+
+/**
+ * Values that may be substituted into a url placeholder
+ */
+export type PathSegment = string | number
 
 /**
  * Form a schema from a callback function
  */
 export type CreateSchema = (z: typeof Zod) => Schema
 
+/**
+ * A schema config field; either a Standard Schema as is,
+ * or a callback forming any schema given Zod
+ */
+export type SchemaConfig = CreateSchema | StandardSchemaV1
+
 /**
  * All standardised methods as documented by MDN
  * https://developer.mozilla.org/en-US/docs/Web/HTTP/Methods.
@@ -146,9 +601,36 @@ export namespace Calltime {
     [
       Omit<
         InstanceConf,
-        keyof Pick<InstanceConf, SchemaKeys | "name" | "handleResponse">
+        keyof Pick<
+          InstanceConf,
+          | SchemaKeys
+          | "name"
+          | "handleResponse"
+          | "errors"
+          | "merge"
+          | "baseUrl"
+          | "profiles"
+          | "paginate"
+        >
       >,
       Pick<RequestInit, "body">,
+      {
+        /**
+         * Report progress of uploading the request body and downloading
+         * the response body, e.g. to show a progress bar for large files.
+         *
+         * Upload progress is only reported along with `streamUpload`.
+         */
+        onProgress?: ProgressCallback
+
+        /**
+         * Send the request body as a stream to report upload progress
+         * through `onProgress`. Ignored unless the runtime supports
+         * streaming request bodies, which Chromium only does over HTTP/2
+         * or later; such an upload fails over HTTP/1.1. Defaults to `false`
+         */
+        streamUpload?: boolean
+      },
     ]
   >
 
@@ -158,10 +640,16 @@ export namespace Calltime {
   export interface NormalizedConfig
     extends Omit<
       InstanceConf,
-      keyof Pick<InstanceConf, SchemaKeys | "name" | "handleResponse">
+      keyof Pick<
+        InstanceConf,
+        SchemaKeys | "name" | "handleResponse" | "errors"
+      >
     > {
     body?: unknown
     params?: unknown
+    path?: unknown
+    onProgress?: ProgressCallback
+    streamUpload?: boolean
     override?: (config: NormalizedInstanceConf) => NormalizedConfig
   }
 }
@@ -173,7 +661,8 @@ export namespace Calltime {
  * The reason a nested object under the repeated prefix is *not* utilised
  * like suggested by this popular tweet https://x.com/housecor/status/1803410168232677667
  * is that it makes instance extensions more confusing and annoying. Instance extensions
- * are SHALLOW merged. Nested merging is opt in with the callback function. This means
+ * are SHALLOW merged, except for `headers` and whatever is opted into through `merge`.
+ * Nested merging is otherwise opt in with the callback function. This means
  * that important config options are best as top level keys.
  *
  * @note
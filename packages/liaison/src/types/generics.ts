@@ -1,5 +1,7 @@
 import * as Helpers from "@amono/outil/types"
 import type * as Concrete from "./concrete"
+import type { StandardSchemaV1 } from "./standard"
+import type { AnyLiaisonError, HttpError } from "../errors"
 
 /**
  * ---
@@ -17,22 +19,34 @@ import type * as Concrete from "./concrete"
  * returns either schema returned from callback,
  * schema directly or a fallback schema type.
  */
-export type FinalizeSchema<T> = T extends Concrete.CreateSchema
-  ? ReturnType<T>
-  : T extends Concrete.Schema
-    ? T
+export type FinalizeSchema<T> = T extends Concrete.Schema
+  ? T
+  : T extends Concrete.CreateSchema
+    ? ReturnType<T>
     : Concrete.Schema
 
 /**
- * Returns input or output type inferred from schema.
+ * Returns input or output type inferred from schema, either
+ * a Standard Schema or a Zod schema predating said standard.
  * If invalid generic type will default to unknown.
  */
 export type FinalSchemaType<
   T,
   Mode extends "input" | "output" = "output",
-> = Mode extends "input"
-  ? Zod.input<FinalizeSchema<T>>
-  : Zod.output<FinalizeSchema<T>>
+> = InferSchema<FinalizeSchema<T>, Mode>
+
+type InferSchema<
+  S,
+  Mode extends "input" | "output",
+> = S extends StandardSchemaV1
+  ? Mode extends "input"
+    ? StandardSchemaV1.InferInput<S>
+    : StandardSchemaV1.InferOutput<S>
+  : S extends Zod.ZodTypeAny
+    ? Mode extends "input"
+      ? Zod.input<S>
+      : Zod.output<S>
+    : unknown
 
 /**
  * Mirrors `Concrete.NormalizedConfig` but as a generic
@@ -42,24 +56,245 @@ export type FinalSchemaType<
  * directly and instead of callbacks.
  */
 export type NormalizedConfig<T> = {
-  [K in keyof T]: K extends Concrete.SchemaKeys ? FinalizeSchema<T[K]> : T[K]
+  [K in keyof T]: K extends Concrete.SchemaKeys
+    ? FinalizeSchema<T[K]>
+    : K extends "errors"
+      ? { [S in keyof T[K]]: FinalizeSchema<T[K][S]> }
+      : T[K]
 }
 
 /**
  * Create a flat object type of all configs defined
  * through a `Liaison` instance's extension stack.
+ * Fields are merged by the same strategies as at
+ * runtime, see `Concrete.Config.merge`.
  */
 export type MergeConfig<T> = T extends { partial: infer P; extends?: infer E }
-  ? Helpers.Override<MergeConfig<E>, P>
+  ? MergePartial<MergeConfig<E>, WithProfiles<P>>
   : {}
 
 /**
- * Type of response inferred from `response` schema from instance config
+ * The final config of an instance, where `url` is resolved against `baseUrl`
+ */
+export type ResolvedConfig<T, $conf = MergeConfig<T>> = $conf extends {
+  baseUrl: infer Base
+  url: infer Url
+}
+  ? Helpers.Override<$conf, { url: JoinUrl<Base, Url> }>
+  : $conf
+
+/**
+ * Names of the `profiles` of an instance
+ */
+export type ProfileName<T> = T extends { profiles: infer P }
+  ? keyof P & string
+  : never
+
+/**
+ * The `baseUrl` of an instance with `profiles` is any of said profiles
+ */
+type WithProfiles<P> = P extends { profiles: infer Profiles }
+  ? Helpers.Override<
+      P,
+      {
+        baseUrl:
+          | (P extends { baseUrl: infer Base } ? Base : undefined)
+          | Profiles[keyof Profiles]
+      }
+    >
+  : P
+
+/**
+ * Merge the partial config of a single instance into the config it inherits
+ */
+type MergePartial<
+  Inherited,
+  P,
+  $strategies = P extends { merge: infer S } ? S : {},
+> = Helpers.Prettify<
+  {
+    [K in keyof Inherited as K extends keyof P
+      ? never
+      : MergeStrategy<K, $strategies> extends "remove"
+        ? never
+        : K]: Inherited[K]
+  } & {
+    [K in Exclude<keyof P, "merge" | "profiles">]: K extends keyof Inherited
+      ? MergeField<Inherited[K], P[K], MergeStrategy<K, $strategies>>
+      : P[K]
+  }
+>
+
+type MergeStrategy<K, $strategies> = K extends keyof $strategies
+  ? $strategies[K]
+  : K extends "headers"
+    ? "merge"
+    : K extends "baseUrl"
+      ? "join"
+      : "override"
+
+type MergeField<Inherited, Own, Strategy> = Strategy extends "merge"
+  ? MergeHeaders<Inherited, Own>
+  : Strategy extends "join"
+    ? JoinUrl<Inherited, Own>
+    : Strategy extends "intersect"
+      ? IntersectSchemas<Inherited, Own>
+      : Own
+
+/**
+ * Mirrors the runtime joining of a url with a base url,
+ * a base url of several literals results in a union
+ */
+export type JoinUrl<Base, Url> = Url extends
+  | `${string}://${string}`
+  | `//${string}`
+  ? Url
+  : Base extends string
+    ? Url extends ""
+      ? Base
+      : Url extends string
+        ? `${TrimEnd<Base, "/">}/${TrimStart<Url, "/">}`
+        : Url
+    : Url
+
+type TrimEnd<S, C extends string> = S extends `${infer R}${C}`
+  ? TrimEnd<R, C>
+  : S
+
+type TrimStart<S, C extends string> = S extends `${C}${infer R}`
+  ? TrimStart<R, C>
+  : S
+
+/**
+ * Header names are lowercased when merged, as by the `Headers` API.
+ * Headers given in any other form than a record are not tracked.
+ */
+type MergeHeaders<Inherited, Own> = [Inherited, Own] extends [
+  Record<string, string>,
+  Record<string, string>,
+]
+  ? Helpers.Prettify<
+      Omit<LowercaseKeys<Inherited>, keyof LowercaseKeys<Own>> &
+        LowercaseKeys<Own>
+    >
+  : Record<string, string>
+
+type LowercaseKeys<T> = { [K in keyof T as Lowercase<K & string>]: T[K] }
+
+/**
+ * Schema validating by both schemas, whose object outputs are merged
  */
-export type Response<T> = FinalSchemaType<
-  Helpers.Lookup<T, ["config", "response"]>
+type IntersectSchemas<
+  Inherited,
+  Own,
+  $output = FinalSchemaType<Inherited>,
+  $ownOutput = FinalSchemaType<Own>,
+> = StandardSchemaV1<
+  FinalSchemaType<Inherited, "input"> & FinalSchemaType<Own, "input">,
+  [$output, $ownOutput] extends [object, object]
+    ? Helpers.Override<$output, $ownOutput>
+    : $ownOutput
 >
 
+/**
+ * Characters that end a `:name` placeholder in a url,
+ * mirrors the pattern used when substituting at runtime.
+ */
+type PlaceholderTerminator = "/" | "?" | "#" | "."
+
+/**
+ * Read the name of a `:name` placeholder one character at a time
+ */
+type TakePlaceholderName<
+  S,
+  Acc extends string = "",
+> = S extends `${infer C}${infer Rest}`
+  ? C extends PlaceholderTerminator
+    ? Acc
+    : TakePlaceholderName<Rest, `${Acc}${C}`>
+  : Acc
+
+/**
+ * Union of all `:name` and `{name}` placeholder names
+ * found in a literal url, e.g. `users/:id/posts/{postId}`
+ * evaluates to `"id" | "postId"`.
+ *
+ * Whichever placeholder comes first is taken before scanning
+ * the rest, such that neither style shadows the other.
+ */
+export type PathPlaceholders<Url> = Url extends `${infer Before}/:${infer Rest}`
+  ? Url extends `${infer BeforeBrace}{${infer Name}}${infer BraceRest}`
+    ? Before extends `${BeforeBrace}${string}`
+      ? Name | PathPlaceholders<BraceRest>
+      : TakePlaceholderName<Rest> | PathPlaceholders<Rest>
+    : TakePlaceholderName<Rest> | PathPlaceholders<Rest>
+  : Url extends `${string}{${infer Name}}${infer Rest}`
+    ? Name | PathPlaceholders<Rest>
+    : never
+
+/**
+ * Type of response inferred from `response` schema from instance config.
+ * Without a schema it is inferred from how the response is unwrapped,
+ * i.e. `handleResponse` or `responseFormat`.
+ */
+export type Response<
+  T,
+  $conf = Helpers.Lookup<T, ["config"]>,
+> = "response" extends keyof $conf
+  ? FinalSchemaType<Helpers.Lookup<$conf, ["response"]>>
+  : Unwrapped<$conf>
+
+/**
+ * Type of the response body as sent by the server,
+ * i.e. the input of the `response` schema from instance config
+ */
+export type ResponseInput<
+  T,
+  $conf = Helpers.Lookup<T, ["config"]>,
+> = "response" extends keyof $conf
+  ? FinalSchemaType<Helpers.Lookup<$conf, ["response"]>, "input">
+  : unknown
+
+/**
+ * Type of each item of a streamed response inferred
+ * from `response` schema from instance config
+ */
+export type StreamItem<
+  T,
+  $conf = Helpers.Lookup<T, ["config"]>,
+> = "response" extends keyof $conf
+  ? FinalSchemaType<Helpers.Lookup<$conf, ["response"]>>
+  : unknown
+
+/**
+ * Type of each item of a paginated response, as picked from
+ * every page by `paginate.items` from instance config
+ */
+export type PageItem<
+  T,
+  $conf = Helpers.Lookup<T, ["config"]>,
+  $page = Response<T>,
+> = $conf extends { paginate: { items: infer I } }
+  ? I extends (...args: any[]) => readonly (infer Item)[]
+    ? Item
+    : I extends keyof $page
+      ? ArrayItem<$page[I]>
+      : unknown
+  : ArrayItem<$page>
+
+type ArrayItem<T> = T extends readonly (infer Item)[] ? Item : unknown
+
+/**
+ * Type of the unwrapped response body before any schema validation
+ */
+export type Unwrapped<$conf> = $conf extends {
+  handleResponse: (...args: any[]) => infer R
+}
+  ? Awaited<R>
+  : $conf extends { responseFormat: infer F extends Concrete.ResponseFormat }
+    ? Concrete.ResponseFormats[F]
+    : unknown
+
 /**
  * Wraps response in a tuple typed in a manner such that
  * if error is checked for, then that will narrow the
@@ -71,7 +306,23 @@ export type Response<T> = FinalSchemaType<
  */
 export type SafeResponse<T> =
   | [response: Response<T>, error: null]
-  | [response: null, error: Error]
+  | [response: null, error: Errors<T>]
+
+/**
+ * Union of errors a network call may fail with. Any `HttpError` with a
+ * status documented by the `errors` schemas has its `body` typed
+ * accordingly, discriminated from undocumented ones by `documented`.
+ */
+export type Errors<T, $errors = Helpers.Lookup<T, ["config", "errors"]>> =
+  | Exclude<AnyLiaisonError, HttpError>
+  | HttpError<number, unknown, false>
+  | {
+      [S in keyof $errors]: HttpError<
+        S & number,
+        FinalSchemaType<$errors[S]>,
+        true
+      >
+    }[keyof $errors]
 
 /**
  * Generic types used to contextualise what is allowed
@@ -98,19 +349,25 @@ export namespace Calltime {
   /**
    * Fields that are already defined and should not be passed at call time.
    * Support go to definition to easily find the origin of said field.
+   *
+   * @note `signal` is exempt because signals are merged rather than
+   * overwritten, every signal of the chain and at call time is respected.
    */
   export type DisallowAlreadyDefined<
     T,
     $conf = Helpers.Lookup<T, ["config"]>,
   > = Partial<{
-    [K in keyof $conf]: Helpers.Warning<`${Helpers.ToString<K>} already defined; ${Helpers.ToString<$conf[K], "value not representable as a string">}>}`>
+    [K in Exclude<
+      keyof $conf,
+      "signal"
+    >]: Helpers.Warning<`${Helpers.ToString<K>} already defined; ${Helpers.ToString<$conf[K], "value not representable as a string">}>}`>
   }>
 
   /**
    * This just validates keys are derived from config, making it easier
    * to spot if union goes out of sync during refactoring.
    */
-  type InputSchemas = keyof Pick<Concrete.Config, "params" | "body">
+  type InputSchemas = keyof Pick<Concrete.Config, "params" | "body" | "path">
 
   /**
    * Maps provided keys to Zod inferred schema types
@@ -123,7 +380,19 @@ export namespace Calltime {
       $conf[K],
       "input"
     >
-  }
+  } & PathInputs<$conf>
+
+  /**
+   * When no `path` schema is defined, any placeholders found
+   * in the literal `url` are still required at call time.
+   */
+  type PathInputs<$conf> = "path" extends keyof $conf
+    ? {}
+    : $conf extends { url: infer Url }
+      ? [PathPlaceholders<Url>] extends [never]
+        ? {}
+        : { path: Record<PathPlaceholders<Url>, Concrete.PathSegment> }
+      : {}
 
   /**
    * Creates object with required field
@@ -152,14 +421,20 @@ export namespace Meta {
   export type SchemaTypes<
     T,
     $conf = Helpers.Lookup<T, ["config"]>,
-  > = Helpers.Prettify<{
-    [K in keyof Helpers.SafePick<
-      $conf,
-      Concrete.SchemaKeys
-    >]: K extends keyof Pick<Concrete.Config, "params" | "body">
-      ? FinalSchemaType<$conf[K], "input">
-      : FinalSchemaType<$conf[K]>
-  }>
+  > = Helpers.Prettify<
+    {
+      [K in keyof Helpers.SafePick<
+        $conf,
+        Concrete.SchemaKeys
+      >]: K extends keyof Pick<Concrete.Config, "params" | "body" | "path">
+        ? FinalSchemaType<$conf[K], "input">
+        : FinalSchemaType<$conf[K]>
+    } & {
+      [K in keyof Helpers.SafePick<$conf, "errors">]: {
+        [S in keyof $conf[K]]: FinalSchemaType<$conf[K][S]>
+      }
+    }
+  >
 
   /**
    * Tuple type of all the `Liaison` instances that have
@@ -0,0 +1,27 @@
+/**
+ * Matches urls with a scheme, e.g. `https://`, and protocol-relative urls
+ */
+const ABSOLUTE_URL = /^(?:[a-z][a-z\d+\-.]*:)?\/\//i
+
+/**
+ * Join a url with a base url, normalizing the slashes in between.
+ * An absolute url is used as is, as is any url without a base url.
+ *
+ * @example
+ * ```ts
+ * joinUrl("https://api.example.com/v1/", "/users") // https://api.example.com/v1/users
+ * ```
+ */
+export function joinUrl(base: string | undefined, url: string) {
+  if (base === undefined || isAbsoluteUrl(url)) return url
+  if (!url) return base
+
+  return `${base.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`
+}
+
+/**
+ * Whether a url has a scheme, or is protocol-relative
+ */
+export function isAbsoluteUrl(url: string) {
+  return ABSOLUTE_URL.test(url)
+}
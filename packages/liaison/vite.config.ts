@@ -1,4 +1,4 @@
-import { defineConfig } from "vite"
+import { defineConfig } from "vitest/config"
 import pkg from "./package.json" with { type: "json" }
 
 export default defineConfig({
@@ -9,15 +9,29 @@ export default defineConfig({
     sourcemap: true,
 
     lib: {
-      entry: "./src/index.ts",
-      fileName: "index",
+      entry: {
+        index: "./src/index.ts",
+        codegen: "./src/codegen/index.ts",
+        openapi: "./src/openapi/index.ts",
+        opentelemetry: "./src/opentelemetry/index.ts",
+        tanstack: "./src/tanstack/index.ts",
+        cli: "./src/codegen/cli.ts"
+      },
       formats: ["es"]
     },
 
     rollupOptions: {
-      external: Object.keys(pkg.peerDependencies)
+      external: [
+        ...Object.keys(pkg.peerDependencies),
+        "js-yaml",
+        "zod-to-json-schema",
+        /^node:/
+      ]
     },
 
     emptyOutDir: false
+  },
+  test: {
+    environment: "jsdom"
   }
 })